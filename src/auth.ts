@@ -0,0 +1,281 @@
+/**
+ * Auth providers - OAuth2 token refresh, HTTP Digest and request signing
+ */
+
+import type {
+  AuthProviderLike,
+  AuthRequest,
+  OAuth2Options,
+  OAuth2Token,
+  DigestOptions,
+  RequestSigner
+} from './types.js';
+import { AuthError } from './errors.js';
+
+// Refresh a little early so a token does not expire in flight
+const EXPIRY_MARGIN = 10000;
+
+/** Base64 of the UTF-8 bytes of a string, without Node's Buffer */
+export function base64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parses a WWW-Authenticate header, which may hold several challenges.
+ * Scheme names and parameter names are lowercased.
+ */
+export function parseChallenges(header: string): Array<{ scheme: string; params: Record<string, string> }> {
+  const challenges: Array<{ scheme: string; params: Record<string, string> }> = [];
+  const pattern = /\s*,?\s*([^\s=,]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^\s,]*))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header))) {
+    const [, name, value] = match;
+    if (value === undefined) {
+      challenges.push({ scheme: name.toLowerCase(), params: {} });
+    } else if (challenges.length > 0) {
+      challenges[challenges.length - 1].params[name.toLowerCase()] = value.startsWith('"')
+        ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+        : value;
+    }
+  }
+  return challenges;
+}
+
+// ============================================================================
+// OAuth2
+// ============================================================================
+
+/**
+ * OAuth2 client-credentials or refresh-token grant. Concurrent requests
+ * share one token request, and a 401 refreshes the token and replays once.
+ */
+export class OAuth2Auth implements AuthProviderLike {
+  private _options: OAuth2Options;
+  private _token: OAuth2Token | undefined;
+  private _refreshing: Promise<OAuth2Token> | null = null;
+
+  constructor(options: OAuth2Options) {
+    this._options = options;
+    this._token = options.token;
+  }
+
+  async authorize(request: AuthRequest): Promise<void> {
+    const token = await this.token();
+    request.headers['authorization'] = `${token.tokenType} ${token.accessToken}`;
+  }
+
+  challenge(request: AuthRequest, response: globalThis.Response): boolean {
+    if (response.status !== 401) return false;
+    const token = this._token;
+    // Only the token that was rejected is dropped; another caller may have refreshed it already
+    if (token && request.headers['authorization'] === `${token.tokenType} ${token.accessToken}`) {
+      this._token = { ...token, expiresAt: 0 };
+    }
+    return true;
+  }
+
+  /** The current token, requesting a new one if it is missing or expired */
+  token(): Promise<OAuth2Token> {
+    const token = this._token;
+    if (token && (token.expiresAt === undefined || Date.now() < token.expiresAt - EXPIRY_MARGIN)) {
+      return Promise.resolve(token);
+    }
+    this._refreshing ??= this.requestToken().finally(() => {
+      this._refreshing = null;
+    });
+    return this._refreshing;
+  }
+
+  private async requestToken(): Promise<OAuth2Token> {
+    const { tokenUrl, clientId, clientSecret, scope, clientAuthentication = 'basic' } = this._options;
+    const refreshToken = this._token?.refreshToken ?? this._options.refreshToken;
+
+    const form = new URLSearchParams();
+    if (refreshToken) {
+      form.set('grant_type', 'refresh_token');
+      form.set('refresh_token', refreshToken);
+    } else {
+      form.set('grant_type', 'client_credentials');
+    }
+    if (scope) form.set('scope', Array.isArray(scope) ? scope.join(' ') : scope);
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-www-form-urlencoded',
+      accept: 'application/json'
+    };
+    if (clientSecret !== undefined && clientAuthentication === 'basic') {
+      // RFC 6749 2.3.1: both parts are form-encoded first
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers['authorization'] = `Basic ${base64(credentials)}`;
+    } else {
+      form.set('client_id', clientId);
+      if (clientSecret !== undefined) form.set('client_secret', clientSecret);
+    }
+
+    let response: globalThis.Response;
+    try {
+      response = await (this._options.fetch ?? globalThis.fetch)(tokenUrl, { method: 'POST', headers, body: form });
+    } catch (error) {
+      throw new AuthError(`OAuth2 token request failed: ${(error as Error)?.message ?? error}`, { cause: error });
+    }
+
+    const text = await response.text();
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = Object.fromEntries(new URLSearchParams(text));
+    }
+    if (!response.ok || typeof data?.access_token !== 'string') {
+      const reason = data?.error_description ?? data?.error ?? `status ${response.status}`;
+      throw new AuthError(`OAuth2 token request failed: ${reason}`);
+    }
+
+    const token: OAuth2Token = {
+      accessToken: data.access_token,
+      // Servers often send "bearer", which some resource servers reject
+      tokenType: !data.token_type || data.token_type.toLowerCase() === 'bearer' ? 'Bearer' : data.token_type,
+      expiresAt: data.expires_in !== undefined ? Date.now() + Number(data.expires_in) * 1000 : undefined,
+      // A server that does not rotate refresh tokens keeps the old one valid
+      refreshToken: data.refresh_token ?? refreshToken,
+      scope: data.scope
+    };
+    this._token = token;
+    this._options.onToken?.(token);
+    return token;
+  }
+}
+
+// ============================================================================
+// Digest
+// ============================================================================
+
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque: string | undefined;
+  algorithm: string;
+  qop: string | undefined;
+  count: number;
+}
+
+const DIGEST_ALGORITHMS = ['MD5', 'MD5-SESS', 'SHA-256', 'SHA-256-SESS'];
+
+async function hash(algorithm: string, data: string | Uint8Array): Promise<string> {
+  if (algorithm.startsWith('MD5')) {
+    // WebCrypto has no MD5
+    const { createHash } = await import('node:crypto');
+    return createHash('md5').update(data).digest('hex');
+  }
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * HTTP Digest auth (RFC 7616). The first request is sent without
+ * credentials; later ones answer the last challenge straight away.
+ */
+export class DigestAuth implements AuthProviderLike {
+  private _options: DigestOptions;
+  private _challenge: DigestChallenge | null = null;
+
+  constructor(options: DigestOptions) {
+    this._options = options;
+  }
+
+  async authorize(request: AuthRequest): Promise<void> {
+    const challenge = this._challenge;
+    if (!challenge) return;
+
+    const { username, password } = this._options;
+    const { realm, nonce, algorithm, qop } = challenge;
+    const target = new URL(request.url);
+    const uri = `${target.pathname}${target.search}`;
+    const cnonce = randomHex(16);
+    const nc = (++challenge.count).toString(16).padStart(8, '0');
+
+    let ha1 = await hash(algorithm, `${username}:${realm}:${password}`);
+    if (algorithm.endsWith('-SESS')) ha1 = await hash(algorithm, `${ha1}:${nonce}:${cnonce}`);
+    const ha2 = qop === 'auth-int'
+      ? await hash(algorithm, `${request.method}:${uri}:${await hash(algorithm, await request.body())}`)
+      : await hash(algorithm, `${request.method}:${uri}`);
+    const response = qop
+      ? await hash(algorithm, `${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+      : await hash(algorithm, `${ha1}:${nonce}:${ha2}`);
+
+    const fields = [
+      `username=${quote(username)}`,
+      `realm=${quote(realm)}`,
+      `nonce=${quote(nonce)}`,
+      `uri=${quote(uri)}`,
+      `algorithm=${algorithm}`,
+      `response=${quote(response)}`
+    ];
+    if (qop) fields.push(`qop=${qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+    if (challenge.opaque !== undefined) fields.push(`opaque=${quote(challenge.opaque)}`);
+    request.headers['authorization'] = `Digest ${fields.join(', ')}`;
+  }
+
+  challenge(request: AuthRequest, response: globalThis.Response): boolean {
+    if (response.status !== 401) return false;
+    const digest = parseChallenges(response.headers.get('www-authenticate') ?? '')
+      .find(challenge => challenge.scheme === 'digest')?.params;
+    if (!digest?.nonce) return false;
+
+    // Rejected credentials are wrong unless the server only found the nonce stale
+    const answered = request.headers['authorization']?.startsWith('Digest ');
+    if (answered && digest.stale?.toLowerCase() !== 'true') return false;
+
+    const algorithm = (digest.algorithm ?? 'MD5').toUpperCase();
+    if (!DIGEST_ALGORITHMS.includes(algorithm)) return false;
+    const offered = (digest.qop ?? '').split(',').map(value => value.trim().toLowerCase());
+
+    this._challenge = {
+      realm: digest.realm ?? '',
+      nonce: digest.nonce,
+      opaque: digest.opaque,
+      algorithm,
+      qop: offered.includes('auth') ? 'auth' : offered.includes('auth-int') ? 'auth-int' : undefined,
+      count: 0
+    };
+    return true;
+  }
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Runs a signer (HMAC, AWS SigV4...) on every request, after all other
+ * headers are set. The signer sees the final URL and body bytes and adds its
+ * headers in place.
+ */
+export class SigningAuth implements AuthProviderLike {
+  private _signer: RequestSigner;
+
+  constructor(signer: RequestSigner) {
+    this._signer = signer;
+  }
+
+  async authorize(request: AuthRequest): Promise<void> {
+    await this._signer({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: await request.body()
+    });
+  }
+}
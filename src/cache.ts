@@ -0,0 +1,411 @@
+/**
+ * HTTP response cache (RFC 9111) - opt-in via InstanceOptions.cache
+ *
+ * Only GET responses are stored. Bodies are captured as the caller reads
+ * them, so an abandoned stream is simply not cached.
+ */
+
+import type { CacheOptions, CacheStore, CacheEntry, CacheStatus } from './types.js';
+import { replaceBody } from './stream.js';
+
+type Send = (url: string, init: RequestInit) => Promise<globalThis.Response>;
+
+export interface CacheResult {
+  response: globalThis.Response;
+  status: CacheStatus;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_ENTRY_SIZE = 10 * 1024 * 1024;
+
+// Status codes that may be cached without explicit freshness (RFC 9110 §15.1)
+const HEURISTIC_STATUS_CODES = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501];
+
+export class MemoryCacheStore implements CacheStore {
+  private _entries = new Map<string, CacheEntry>();
+  private _maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+    this._maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this._entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this._entries.delete(key);
+      this._entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    while (this._entries.size > this._maxEntries) {
+      this._entries.delete(this._entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this._entries.delete(key);
+  }
+
+  clear(): void {
+    this._entries.clear();
+  }
+}
+
+export function parseCacheControl(header: string | null | undefined): Map<string, string> {
+  const directives = new Map<string, string>();
+  if (!header) return directives;
+  for (const part of header.split(',')) {
+    const [name, ...rest] = part.split('=');
+    const key = name.trim().toLowerCase();
+    if (key) directives.set(key, rest.join('=').trim().replace(/^"|"$/g, ''));
+  }
+  return directives;
+}
+
+function seconds(directives: Map<string, string>, name: string): number | undefined {
+  if (!directives.has(name)) return undefined;
+  const value = Number.parseInt(directives.get(name) as string, 10);
+  return Number.isNaN(value) ? undefined : Math.max(0, value);
+}
+
+function lowercaseHeaders(headers: RequestInit['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+function varyFields(headers: Record<string, string>): string[] {
+  return (headers['vary'] || '')
+    .split(',')
+    .map(field => field.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function encodeBody(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+function decodeBody(body: string): Uint8Array {
+  return new Uint8Array(Buffer.from(body, 'base64'));
+}
+
+export class HttpCache {
+  readonly store: CacheStore;
+  private _shared: boolean;
+  private _maxEntrySize: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this._shared = options.shared ?? false;
+    this._maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE;
+  }
+
+  /**
+   * Fetch through the cache. `send` performs the actual network request.
+   * A `credentialed` request (cookie jar, auth provider or Authorization
+   * header) gets credentials the cache never sees, so it only stores and
+   * reuses `public` responses; the key alone cannot tell users apart.
+   */
+  async fetch(url: string, init: RequestInit, send: Send, credentialed = false): Promise<CacheResult> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const key = `GET:${url}`;
+
+    if (method !== 'GET') {
+      const response = await send(url, init);
+      // Unsafe methods invalidate what we hold for the target (RFC 9111 §4.4)
+      if (!['HEAD', 'OPTIONS', 'TRACE'].includes(method) && response.status < 400) {
+        await this.store.delete(key);
+      }
+      return { response, status: 'bypass' };
+    }
+
+    const requestHeaders = lowercaseHeaders(init.headers);
+    const requestDirectives = parseCacheControl(requestHeaders['cache-control']);
+    const userConditional = 'if-none-match' in requestHeaders || 'if-modified-since' in requestHeaders;
+
+    if (requestDirectives.has('no-store') || userConditional || 'range' in requestHeaders) {
+      return { response: await send(url, init), status: 'bypass' };
+    }
+
+    const entry = await this.store.get(key);
+    const usable = entry && this.varyMatches(entry, requestHeaders) &&
+      (!credentialed || parseCacheControl(entry.headers['cache-control']).has('public'));
+    if (!usable) {
+      return this.fetchAndStore(key, url, init, requestHeaders, send, credentialed);
+    }
+
+    const now = Date.now();
+    const age = this.currentAge(entry, now);
+    const lifetime = this.freshnessLifetime(entry);
+    const responseDirectives = parseCacheControl(entry.headers['cache-control']);
+    const requestMaxAge = seconds(requestDirectives, 'max-age');
+    const mustCheck = responseDirectives.has('no-cache') ||
+      requestDirectives.has('no-cache') ||
+      requestHeaders['pragma'] === 'no-cache';
+
+    if (!mustCheck && age < lifetime && (requestMaxAge === undefined || age <= requestMaxAge)) {
+      return { response: this.toResponse(entry, age), status: 'hit' };
+    }
+
+    const staleness = age - lifetime;
+    const mustRevalidate = responseDirectives.has('must-revalidate') ||
+      (this._shared && responseDirectives.has('proxy-revalidate'));
+    const staleWhileRevalidate = seconds(responseDirectives, 'stale-while-revalidate');
+
+    if (!mustCheck && !mustRevalidate && staleWhileRevalidate !== undefined && staleness < staleWhileRevalidate) {
+      // Serve stale now, refresh in the background without the caller's signal
+      const { signal: _signal, ...backgroundInit } = init;
+      this.revalidate(key, url, backgroundInit, requestHeaders, entry, send, credentialed)
+        .then(result => result.response.arrayBuffer())
+        .catch(() => {});
+      return { response: this.toResponse(entry, age), status: 'stale' };
+    }
+
+    const staleIfError = Math.max(
+      seconds(responseDirectives, 'stale-if-error') ?? -1,
+      seconds(requestDirectives, 'stale-if-error') ?? -1
+    );
+    const canServeStale = !mustRevalidate && staleness < staleIfError;
+
+    let result: CacheResult;
+    try {
+      result = await this.revalidate(key, url, init, requestHeaders, entry, send, credentialed);
+    } catch (error) {
+      if (canServeStale && !init.signal?.aborted) {
+        return { response: this.toResponse(entry, age), status: 'stale' };
+      }
+      throw error;
+    }
+
+    if (canServeStale && result.response.status >= 500) {
+      await result.response.body?.cancel();
+      return { response: this.toResponse(entry, age), status: 'stale' };
+    }
+    return result;
+  }
+
+  private async revalidate(
+    key: string,
+    url: string,
+    init: RequestInit,
+    requestHeaders: Record<string, string>,
+    entry: CacheEntry,
+    send: Send,
+    credentialed: boolean
+  ): Promise<CacheResult> {
+    const headers = { ...requestHeaders };
+    if (entry.headers['etag']) headers['if-none-match'] = entry.headers['etag'];
+    if (entry.headers['last-modified']) headers['if-modified-since'] = entry.headers['last-modified'];
+
+    const requestTime = Date.now();
+    const response = await send(url, { ...init, headers });
+
+    if (response.status !== 304) {
+      return this.storeResponse(key, url, response, requestHeaders, requestTime, credentialed);
+    }
+
+    await response.body?.cancel();
+    const updated: CacheEntry = {
+      ...entry,
+      headers: { ...entry.headers },
+      requestTime,
+      responseTime: Date.now()
+    };
+    response.headers.forEach((value, name) => {
+      if (name !== 'content-length') updated.headers[name] = value;
+    });
+    await this.store.set(key, updated);
+    return { response: this.toResponse(updated, this.currentAge(updated, Date.now())), status: 'revalidated' };
+  }
+
+  private async fetchAndStore(
+    key: string,
+    url: string,
+    init: RequestInit,
+    requestHeaders: Record<string, string>,
+    send: Send,
+    credentialed: boolean
+  ): Promise<CacheResult> {
+    const requestTime = Date.now();
+    const response = await send(url, init);
+    return this.storeResponse(key, url, response, requestHeaders, requestTime, credentialed);
+  }
+
+  private async storeResponse(
+    key: string,
+    url: string,
+    response: globalThis.Response,
+    requestHeaders: Record<string, string>,
+    requestTime: number,
+    credentialed: boolean
+  ): Promise<CacheResult> {
+    const responseTime = Date.now();
+    const headers = lowercaseHeaders(response.headers);
+
+    if (!this.isStorable(response.status, headers, requestHeaders, credentialed)) {
+      return { response, status: 'miss' };
+    }
+
+    const varyHeaders: Record<string, string> = {};
+    for (const field of varyFields(headers)) {
+      varyHeaders[field] = requestHeaders[field] ?? '';
+    }
+
+    const save = (bytes: Uint8Array) => this.store.set(key, {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: encodeBody(bytes),
+      varyHeaders,
+      requestTime,
+      responseTime
+    });
+
+    if (!response.body) {
+      await save(new Uint8Array(0));
+      return { response, status: 'miss' };
+    }
+
+    const recorded = recordStream(response.body, this._maxEntrySize, save);
+    return { response: replaceBody(response, recorded), status: 'miss' };
+  }
+
+  private isStorable(
+    status: number,
+    headers: Record<string, string>,
+    requestHeaders: Record<string, string>,
+    credentialed: boolean
+  ): boolean {
+    const directives = parseCacheControl(headers['cache-control']);
+    if (directives.has('no-store')) return false;
+    if (credentialed && !directives.has('public')) return false;
+    if (varyFields(headers).includes('*')) return false;
+    if (status === 206 || status === 304) return false;
+    if ((headers['content-type'] || '').startsWith('text/event-stream')) return false;
+
+    if (this._shared) {
+      if (directives.has('private')) return false;
+      const allowsAuthorized = directives.has('public') ||
+        directives.has('s-maxage') ||
+        directives.has('must-revalidate');
+      if (requestHeaders['authorization'] && !allowsAuthorized) return false;
+    }
+
+    const explicit = directives.has('max-age') ||
+      directives.has('public') ||
+      'expires' in headers ||
+      (this._shared && directives.has('s-maxage'));
+    return explicit || HEURISTIC_STATUS_CODES.includes(status);
+  }
+
+  private varyMatches(entry: CacheEntry, requestHeaders: Record<string, string>): boolean {
+    return Object.entries(entry.varyHeaders).every(([field, value]) => (requestHeaders[field] ?? '') === value);
+  }
+
+  /**
+   * Freshness lifetime in seconds (RFC 9111 §4.2.1).
+   */
+  private freshnessLifetime(entry: CacheEntry): number {
+    const directives = parseCacheControl(entry.headers['cache-control']);
+    const sharedMaxAge = seconds(directives, 's-maxage');
+    if (this._shared && sharedMaxAge !== undefined) return sharedMaxAge;
+
+    const maxAge = seconds(directives, 'max-age');
+    if (maxAge !== undefined) return maxAge;
+
+    const date = Date.parse(entry.headers['date'] ?? '') || entry.responseTime;
+    if (entry.headers['expires'] !== undefined) {
+      const expires = Date.parse(entry.headers['expires']);
+      return Number.isNaN(expires) ? 0 : Math.max(0, (expires - date) / 1000);
+    }
+
+    // Heuristic freshness: 10% of the time since last modification (§4.2.2)
+    const lastModified = Date.parse(entry.headers['last-modified'] ?? '');
+    if (!Number.isNaN(lastModified) && HEURISTIC_STATUS_CODES.includes(entry.status)) {
+      return Math.max(0, (date - lastModified) / 10000);
+    }
+    return 0;
+  }
+
+  /**
+   * Current age in seconds (RFC 9111 §4.2.3).
+   */
+  private currentAge(entry: CacheEntry, now: number): number {
+    const date = Date.parse(entry.headers['date'] ?? '') || entry.responseTime;
+    const apparentAge = Math.max(0, entry.responseTime - date) / 1000;
+    const ageValue = Number(entry.headers['age']) || 0;
+    const responseDelay = (entry.responseTime - entry.requestTime) / 1000;
+    const correctedInitialAge = Math.max(apparentAge, ageValue + responseDelay);
+    return correctedInitialAge + (now - entry.responseTime) / 1000;
+  }
+
+  private toResponse(entry: CacheEntry, age: number): globalThis.Response {
+    const headers = new Headers(entry.headers);
+    headers.set('age', String(Math.floor(age)));
+    const nullBody = entry.status === 204 || entry.status === 205 || entry.status === 304;
+    return new globalThis.Response(nullBody ? null : decodeBody(entry.body), {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers
+    });
+  }
+}
+
+/**
+ * Passes a body through while keeping a copy. `onComplete` runs (and is
+ * awaited) before the stream closes, so a fully read response is already
+ * stored when the caller sees the end of it.
+ */
+function recordStream(
+  source: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  onComplete: (bytes: Uint8Array) => unknown
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  let chunks: Uint8Array[] | null = [];
+  let size = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        if (chunks) {
+          const bytes = new Uint8Array(size);
+          let offset = 0;
+          for (const chunk of chunks) {
+            bytes.set(chunk, offset);
+            offset += chunk.byteLength;
+          }
+          try {
+            await onComplete(bytes);
+          } catch {
+            // A failing store must not fail the request
+          }
+        }
+        controller.close();
+        return;
+      }
+      if (chunks) {
+        size += value.byteLength;
+        if (size > maxBytes) {
+          chunks = null;
+        } else {
+          chunks.push(value);
+        }
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      chunks = null;
+      return reader.cancel(reason);
+    }
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Per-origin circuit breaker - fail fast while a downstream service is down
+ */
+
+import type {
+  CircuitBreakerOptions,
+  CircuitBreakerLike,
+  CircuitState,
+  CircuitOutcome,
+  CircuitStateChange
+} from './types.js';
+import { CircuitOpenError, HTTPError, AbortError, ParseError } from './errors.js';
+import { Emitter } from './emitter.js';
+import type { Response } from './response.js';
+
+export interface CircuitBreakerEvents {
+  stateChange: (change: CircuitStateChange) => void;
+  reject: (error: CircuitOpenError) => void;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number[];  // Timestamps inside the rolling window
+  openedAt: number;
+  probes: number;      // Half-open requests in flight
+}
+
+function defaultKey(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Network failures, timeouts and 5xx responses count against the circuit;
+ * 4xx responses, aborts and unparseable bodies are not the server being down.
+ */
+function defaultIsFailure(error: unknown, response?: Response): boolean {
+  if (response) return response.status >= 500;
+  if (error instanceof HTTPError) return error.status >= 500;
+  if (error instanceof AbortError || error instanceof ParseError) return false;
+  return error !== undefined;
+}
+
+export class CircuitBreaker extends Emitter<CircuitBreakerEvents> implements CircuitBreakerLike {
+  private _circuits = new Map<string, Circuit>();
+  private _failureThreshold: number;
+  private _window: number;
+  private _resetTimeout: number;
+  private _halfOpenRequests: number;
+  private _key: (url: string) => string;
+  private _isFailure: NonNullable<CircuitBreakerOptions['isFailure']>;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this._failureThreshold = options.failureThreshold ?? 5;
+    this._window = options.window ?? 10000;
+    this._resetTimeout = options.resetTimeout ?? 30000;
+    this._halfOpenRequests = options.halfOpenRequests ?? 1;
+    this._key = options.key ?? defaultKey;
+    this._isFailure = options.isFailure ?? defaultIsFailure;
+    if (options.onStateChange) this.on('stateChange', options.onStateChange);
+  }
+
+  state(url: string): CircuitState {
+    return this.circuit(this._key(url)).state;
+  }
+
+  /**
+   * Admits a request or throws CircuitOpenError. Returns the circuit key to
+   * pass to release() once the attempt has an outcome.
+   */
+  acquire(url: string): string {
+    const key = this._key(url);
+    const circuit = this.circuit(key);
+    const now = Date.now();
+
+    if (circuit.state === 'open' && now - circuit.openedAt >= this._resetTimeout) {
+      this.transition(key, circuit, 'half-open');
+    }
+
+    if (circuit.state === 'open' || (circuit.state === 'half-open' && circuit.probes >= this._halfOpenRequests)) {
+      const retryAt = circuit.openedAt + this._resetTimeout;
+      const error = new CircuitOpenError(key, Math.max(0, retryAt - now));
+      this.emit('reject', error);
+      throw error;
+    }
+
+    if (circuit.state === 'half-open') circuit.probes++;
+    return key;
+  }
+
+  release(key: string, outcome: CircuitOutcome): void {
+    const circuit = this.circuit(key);
+    const now = Date.now();
+
+    if (circuit.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+      if (outcome === 'success') {
+        circuit.failures = [];
+        this.transition(key, circuit, 'closed');
+      } else if (outcome === 'failure') {
+        circuit.openedAt = now;
+        this.transition(key, circuit, 'open');
+      }
+      return;
+    }
+
+    if (outcome !== 'failure' || circuit.state !== 'closed') return;
+
+    circuit.failures = circuit.failures.filter(time => now - time < this._window);
+    circuit.failures.push(now);
+    if (circuit.failures.length >= this._failureThreshold) {
+      circuit.openedAt = now;
+      this.transition(key, circuit, 'open');
+    }
+  }
+
+  classify(error: unknown, response?: Response): CircuitOutcome {
+    return this._isFailure(error, response) ? 'failure' : 'success';
+  }
+
+  reset(url?: string): void {
+    if (url === undefined) {
+      this._circuits.clear();
+    } else {
+      this._circuits.delete(this._key(url));
+    }
+  }
+
+  private circuit(key: string): Circuit {
+    let circuit = this._circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: [], openedAt: 0, probes: 0 };
+      this._circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    if (from === to) return;
+    circuit.state = to;
+    this.emit('stateChange', { key, from, to });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Body codecs - parsers and serializers keyed by MIME type
+ */
+
+import type { Parser, Serializer } from './types.js';
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+const parseJson: Parser = (text, { parseJson }) => parseJson(text);
+const parseBinary: Parser = (_text, { bytes }) => toArrayBuffer(bytes);
+
+export const DEFAULT_PARSERS: Record<string, Parser> = {
+  'application/json': parseJson,
+  '+json': parseJson,
+  'application/x-www-form-urlencoded': text => Object.fromEntries(new URLSearchParams(text)),
+  'application/x-ndjson': (text, { parseJson }) =>
+    text.split(/\r?\n/).filter(line => line.trim()).map(line => parseJson(line)),
+  'text/*': text => text,
+  'application/octet-stream': parseBinary,
+  'image/*': parseBinary,
+  'audio/*': parseBinary,
+  'video/*': parseBinary
+};
+
+const serializeJson: Serializer = (data, { stringifyJson }) => stringifyJson(data);
+
+export const DEFAULT_SERIALIZERS: Record<string, Serializer> = {
+  'application/json': serializeJson,
+  '+json': serializeJson,
+  'application/x-www-form-urlencoded': (data, { stringifyQuery }) => stringifyQuery(data),
+  'application/x-ndjson': (data, { stringifyJson }) =>
+    (Array.isArray(data) ? data : [data]).map(item => `${stringifyJson(item)}\n`).join(''),
+  'text/*': data => String(data)
+};
+
+/**
+ * Finds the codec for a Content-Type: the exact type, then its structured
+ * suffix (`+json`, or `application/json` for `application/vnd.api+json`),
+ * then a `type/*` wildcard.
+ */
+export function findCodec<T>(registry: Record<string, T>, contentType: string): T | undefined {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (!type) return undefined;
+  if (registry[type]) return registry[type];
+
+  const plus = type.lastIndexOf('+');
+  if (plus !== -1) {
+    const suffix = type.slice(plus + 1);
+    const codec = registry[`+${suffix}`] ?? registry[`application/${suffix}`];
+    if (codec) return codec;
+  }
+
+  return registry[`${type.split('/')[0]}/*`];
+}
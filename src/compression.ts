@@ -0,0 +1,123 @@
+/**
+ * Content-Encoding - compressed request bodies and decoded response bodies
+ */
+
+import type { ContentEncoding } from './types.js';
+
+type Transform = { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> };
+
+// Leading bytes of each format, to tell an encoded body from one already decoded
+const MAGIC: Record<string, (bytes: Uint8Array) => boolean> = {
+  gzip: bytes => bytes[0] === 0x1f && bytes[1] === 0x8b,
+  deflate: bytes => (bytes[0] & 0x0f) === 8 && ((bytes[0] << 8) | bytes[1]) % 31 === 0,
+  zstd: bytes => bytes[0] === 0x28 && bytes[1] === 0xb5 && bytes[2] === 0x2f && bytes[3] === 0xfd
+};
+
+function normalizeEncoding(encoding: string): string {
+  const name = encoding.trim().toLowerCase();
+  return name === 'x-gzip' ? 'gzip' : name;
+}
+
+/**
+ * A compressing or decompressing transform. gzip and deflate use the web
+ * CompressionStream; br and zstd need node:zlib (zstd from Node 22.15).
+ * Resolves to undefined for an encoding this runtime cannot handle.
+ */
+async function codec(encoding: string, mode: 'compress' | 'decompress'): Promise<Transform | undefined> {
+  if (encoding === 'gzip' || encoding === 'deflate') {
+    return mode === 'compress' ? new CompressionStream(encoding) : new DecompressionStream(encoding);
+  }
+  if (encoding !== 'br' && encoding !== 'zstd') return undefined;
+
+  const zlib: Record<string, any> = await import('node:zlib');
+  const { Duplex } = await import('node:stream');
+  const name = encoding === 'br' ? 'Brotli' : 'Zstd';
+  const create = zlib[mode === 'compress' ? `create${name}Compress` : `create${name}Decompress`];
+  return create ? (Duplex.toWeb(create()) as unknown as Transform) : undefined;
+}
+
+export async function compressStream(
+  source: ReadableStream<Uint8Array>,
+  encoding: ContentEncoding
+): Promise<ReadableStream<Uint8Array>> {
+  const transform = await codec(encoding, 'compress');
+  if (!transform) throw new Error(`Compressing with ${encoding} is not supported by this runtime`);
+  return source.pipeThrough(transform);
+}
+
+export async function compressBytes(bytes: Uint8Array, encoding: ContentEncoding): Promise<Uint8Array> {
+  const stream = await compressStream(new Blob([bytes]).stream(), encoding);
+  return new Uint8Array(await new globalThis.Response(stream).arrayBuffer());
+}
+
+/**
+ * Decodes a body by its Content-Encoding list, last applied first. A body
+ * that does not start like its outermost encoding was already decoded (by
+ * native fetch under a wrapping custom fetch) and is passed through, as is
+ * one using an encoding this runtime cannot decode; `decoded` tells which.
+ */
+export async function decodeStream(
+  source: ReadableStream<Uint8Array>,
+  contentEncoding: string
+): Promise<{ stream: ReadableStream<Uint8Array>; decoded: boolean }> {
+  const encodings = contentEncoding.split(',').map(normalizeEncoding).filter(name => name && name !== 'identity');
+  if (encodings.length === 0) return { stream: source, decoded: false };
+
+  // Peek at the first chunk without losing it
+  const reader = source.getReader();
+  const first = await reader.read();
+  let pending: Uint8Array | undefined = first.value;
+  let stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (pending) {
+        controller.enqueue(pending);
+        pending = undefined;
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+  if (first.done) return { stream, decoded: false };
+
+  const outermost = encodings[encodings.length - 1];
+  if (MAGIC[outermost] && !MAGIC[outermost](first.value)) return { stream, decoded: false };
+
+  const transforms: Transform[] = [];
+  for (const encoding of [...encodings].reverse()) {
+    const transform = await codec(encoding, 'decompress');
+    if (!transform) return { stream, decoded: false };
+    transforms.push(transform);
+  }
+  for (const transform of transforms) stream = stream.pipeThrough(transform);
+  return { stream, decoded: true };
+}
+
+/**
+ * Counts bytes as they pass. Exceeding `limit` fails the stream with the
+ * error from `onLimit` and cancels the source, so a decompression bomb is
+ * never inflated further.
+ */
+export function meterStream(
+  source: ReadableStream<Uint8Array>,
+  onBytes: (total: number) => void,
+  limit?: number,
+  onLimit?: () => Error
+): ReadableStream<Uint8Array> {
+  let total = 0;
+  return source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.byteLength;
+      onBytes(total);
+      if (limit !== undefined && total > limit) {
+        controller.error(onLimit?.() ?? new Error(`Response body exceeds ${limit} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  }));
+}
@@ -0,0 +1,211 @@
+/**
+ * Cookie jar - RFC 6265 Set-Cookie parsing and matching for request.agent()
+ *
+ * Public suffixes are not consulted; plug in a full implementation such as
+ * tough-cookie through the CookieJarLike interface when that matters.
+ */
+
+import type { CookieJarLike } from './types.js';
+
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number; // epoch ms; session cookie when absent
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  hostOnly: boolean;
+  creation: number;
+}
+
+export interface SerializedCookieJar {
+  version: 1;
+  cookies: Cookie[];
+}
+
+/**
+ * Reads every Set-Cookie value; Headers#get() would join them with commas,
+ * which is ambiguous because Expires dates contain commas too.
+ */
+export function getSetCookie(headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function') return headers.getSetCookie();
+  const value = headers.get('set-cookie');
+  return value ? [value] : [];
+}
+
+function defaultPath(pathname: string): string {
+  if (!pathname.startsWith('/')) return '/';
+  const lastSlash = pathname.lastIndexOf('/');
+  return lastSlash === 0 ? '/' : pathname.slice(0, lastSlash);
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && !/^[\d.]+$/.test(host));
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+function parseSameSite(value: string): Cookie['sameSite'] {
+  const normalized = value.toLowerCase();
+  if (normalized === 'strict') return 'Strict';
+  if (normalized === 'lax') return 'Lax';
+  if (normalized === 'none') return 'None';
+  return undefined;
+}
+
+/**
+ * Parses a single Set-Cookie header value in the context of the request URL.
+ * Returns null when the cookie must be ignored (malformed or foreign domain).
+ */
+export function parseSetCookie(header: string, url: string, now = Date.now()): Cookie | null {
+  const { hostname, pathname } = new URL(url);
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator === -1) return null;
+
+  const name = pair.slice(0, separator).trim();
+  if (!name) return null;
+
+  const cookie: Cookie = {
+    name,
+    value: pair.slice(separator + 1).trim(),
+    domain: hostname,
+    path: defaultPath(pathname),
+    secure: false,
+    httpOnly: false,
+    hostOnly: true,
+    creation: now
+  };
+
+  let maxAge: number | undefined;
+  let expires: number | undefined;
+
+  for (const attribute of attributes) {
+    const index = attribute.indexOf('=');
+    const key = (index === -1 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+    const value = index === -1 ? '' : attribute.slice(index + 1).trim();
+
+    switch (key) {
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (!domain) break;
+        if (!domainMatches(hostname, domain)) return null;
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case 'path':
+        cookie.path = value.startsWith('/') ? value : defaultPath(pathname);
+        break;
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) maxAge = Number(value);
+        break;
+      case 'expires': {
+        const time = Date.parse(value);
+        if (!Number.isNaN(time)) expires = time;
+        break;
+      }
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'samesite':
+        cookie.sameSite = parseSameSite(value);
+        break;
+    }
+  }
+
+  // Max-Age wins over Expires (RFC 6265 §5.3 step 3)
+  if (maxAge !== undefined) {
+    cookie.expires = now + maxAge * 1000;
+  } else if (expires !== undefined) {
+    cookie.expires = expires;
+  }
+
+  return cookie;
+}
+
+export class CookieJar implements CookieJarLike {
+  private _cookies = new Map<string, Cookie>();
+
+  static fromJSON(data: SerializedCookieJar | string): CookieJar {
+    const jar = new CookieJar();
+    jar.load(data);
+    return jar;
+  }
+
+  setCookie(header: string, url: string): Cookie | null {
+    const now = Date.now();
+    const cookie = parseSetCookie(header, url, now);
+    if (!cookie) return null;
+
+    // A secure cookie may only be set from a secure origin
+    if (cookie.secure && new URL(url).protocol !== 'https:') return null;
+
+    const key = `${cookie.domain};${cookie.path};${cookie.name}`;
+    const existing = this._cookies.get(key);
+    if (existing) cookie.creation = existing.creation;
+
+    if (cookie.expires !== undefined && cookie.expires <= now) {
+      this._cookies.delete(key);
+      return null;
+    }
+
+    this._cookies.set(key, cookie);
+    return cookie;
+  }
+
+  getCookies(url: string): Cookie[] {
+    const { hostname, pathname, protocol } = new URL(url);
+    const now = Date.now();
+    const matches: Cookie[] = [];
+
+    for (const [key, cookie] of this._cookies) {
+      if (cookie.expires !== undefined && cookie.expires <= now) {
+        this._cookies.delete(key);
+        continue;
+      }
+      const domainOk = cookie.hostOnly ? hostname === cookie.domain : domainMatches(hostname, cookie.domain);
+      if (!domainOk) continue;
+      if (!pathMatches(pathname || '/', cookie.path)) continue;
+      if (cookie.secure && protocol !== 'https:') continue;
+      matches.push(cookie);
+    }
+
+    // Longer paths first, then oldest first (RFC 6265 §5.4 step 2)
+    return matches.sort((a, b) => b.path.length - a.path.length || a.creation - b.creation);
+  }
+
+  getCookieString(url: string): string {
+    return this.getCookies(url).map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  }
+
+  clear(): void {
+    this._cookies.clear();
+  }
+
+  /**
+   * Session cookies are included so a scripted login survives a restart.
+   */
+  toJSON(): SerializedCookieJar {
+    return { version: 1, cookies: [...this._cookies.values()] };
+  }
+
+  load(data: SerializedCookieJar | string): this {
+    const parsed: SerializedCookieJar = typeof data === 'string' ? JSON.parse(data) : data;
+    const now = Date.now();
+    for (const cookie of parsed.cookies ?? []) {
+      if (cookie.expires !== undefined && cookie.expires <= now) continue;
+      this._cookies.set(`${cookie.domain};${cookie.path};${cookie.name}`, { ...cookie });
+    }
+    return this;
+  }
+}
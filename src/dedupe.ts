@@ -0,0 +1,165 @@
+/**
+ * In-flight request deduplication - identical overlapping GETs share one fetch
+ */
+
+import type { DedupeOptions, RequestDeduperLike } from './types.js';
+
+const DEFAULT_DEDUPE_METHODS = ['GET', 'HEAD'];
+// Differ on every request, so never part of the default key
+const IGNORED_HEADERS = ['traceparent', 'tracestate'];
+
+// The shared response, buffered so every caller can get a fresh body
+interface Snapshot {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: ArrayBuffer;
+}
+
+interface InFlight {
+  controller: AbortController;
+  callers: number;
+  result: Promise<Snapshot>;
+}
+
+function toResponse(snapshot: Snapshot): globalThis.Response {
+  const nullBody = snapshot.status === 204 || snapshot.status === 205 || snapshot.status === 304;
+  return new globalThis.Response(nullBody ? null : snapshot.body.slice(0), {
+    status: snapshot.status,
+    statusText: snapshot.statusText,
+    headers: snapshot.headers
+  });
+}
+
+export class RequestDeduper implements RequestDeduperLike {
+  /** What it was created with, so an agent can get a deduper of its own */
+  readonly options: DedupeOptions;
+  private _inflight = new Map<string, InFlight>();
+  private _methods: string[];
+  private _headers: string[] | undefined;
+  private _key: DedupeOptions['key'];
+  private _owners = new WeakMap<object, number>();
+  private _nextOwner = 1;
+
+  constructor(options: DedupeOptions = {}) {
+    this.options = options;
+    this._methods = (options.methods ?? DEFAULT_DEDUPE_METHODS).map(method => method.toUpperCase());
+    this._headers = options.headers?.map(name => name.toLowerCase());
+    this._key = options.key;
+  }
+
+  /** Number of distinct requests currently shared */
+  get size(): number {
+    return this._inflight.size;
+  }
+
+  /**
+   * Sends the request, or joins an identical one already in flight. Each
+   * caller's `init.signal` only detaches that caller; the network request is
+   * aborted once every caller has gone. Requests with a different cookie jar
+   * or auth provider in `partition` never share a fetch.
+   */
+  fetch(
+    url: string,
+    init: RequestInit,
+    send: (init: RequestInit) => Promise<globalThis.Response>,
+    partition: ReadonlyArray<object | null | undefined> = []
+  ): Promise<globalThis.Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const key = this.key(method, url, init.headers, partition);
+    if (key === undefined) return send(init);
+
+    let inflight = this._inflight.get(key);
+    if (!inflight) {
+      const controller = new AbortController();
+      const result = send({ ...init, signal: controller.signal }).then(async response => ({
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: await response.arrayBuffer()
+      }));
+      const entry: InFlight = { controller, callers: 0, result };
+      this._inflight.set(key, entry);
+      result.then(
+        () => this.forget(key, entry),
+        () => this.forget(key, entry)
+      );
+      inflight = entry;
+    }
+
+    return this.join(key, inflight, init.signal ?? undefined);
+  }
+
+  private join(key: string, inflight: InFlight, signal: AbortSignal | undefined): Promise<globalThis.Response> {
+    inflight.callers++;
+
+    return new Promise((resolve, reject) => {
+      let joined = true;
+      const leave = () => {
+        if (!joined) return;
+        joined = false;
+        inflight.callers--;
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        leave();
+        if (inflight.callers === 0) {
+          this.forget(key, inflight);
+          inflight.controller.abort(signal?.reason);
+        }
+        reject(signal?.reason);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      inflight.result.then(
+        snapshot => {
+          leave();
+          resolve(toResponse(snapshot));
+        },
+        error => {
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private key(
+    method: string,
+    url: string,
+    headers: RequestInit['headers'],
+    partition: ReadonlyArray<object | null | undefined>
+  ): string | undefined {
+    if (!this._methods.includes(method)) return undefined;
+    const owners = partition.map(owner => owner ? this.ownerId(owner) : 0).join(' ');
+
+    const normalized: Record<string, string> = {};
+    new Headers(headers).forEach((value, name) => {
+      if (this._headers ? this._headers.includes(name) : !IGNORED_HEADERS.includes(name)) {
+        normalized[name] = value;
+      }
+    });
+    const key = this._key
+      ? this._key({ method, url, headers: normalized })
+      : [`${method} ${url}`, ...Object.keys(normalized).sort().map(name => `${name}:${normalized[name]}`)].join('\n');
+    return key === undefined ? undefined : `${owners}\n${key}`;
+  }
+
+  private ownerId(owner: object): number {
+    let id = this._owners.get(owner);
+    if (id === undefined) {
+      id = this._nextOwner++;
+      this._owners.set(owner, id);
+    }
+    return id;
+  }
+
+  private forget(key: string, inflight: InFlight): void {
+    if (this._inflight.get(key) === inflight) this._inflight.delete(key);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Node dispatcher - proxies, TLS options and keep-alive for native fetch
+ */
+
+import type { Duplex } from 'node:stream';
+import type { DispatcherLike, ProxyOptions, TlsOptions, KeepAliveOptions } from './types.js';
+import { base64 } from './auth.js';
+
+export interface NodeDispatcherOptions {
+  proxy?: boolean | string | ProxyOptions;
+  tls?: TlsOptions;
+  keepAlive?: boolean | KeepAliveOptions;
+}
+
+type Dispatcher = NonNullable<RequestInit['dispatcher']>;
+
+// What undici hands a custom `connect` function
+interface ConnectOptions {
+  hostname: string;
+  protocol: string;
+  port: string;
+}
+
+type Connector = (options: ConnectOptions, callback: (error: Error | null, socket: Duplex | null) => void) => void;
+
+// undici's own connector gives up after as long
+const CONNECT_TIMEOUT = 10000;
+
+function unsupported(reason: string): Error {
+  return new Error(`The proxy, tls and keepAlive options cannot be used: ${reason}`);
+}
+
+function env(name: string): string | undefined {
+  return process.env[name.toLowerCase()] || process.env[name] || undefined;
+}
+
+function parseNoProxy(value: string | string[] | undefined): string[] {
+  const entries = Array.isArray(value) ? value : (value ?? '').split(/[\s,]+/);
+  return entries.map(entry => entry.trim().toLowerCase()).filter(Boolean);
+}
+
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Whether a NO_PROXY list covers a host. Entries match the host and its
+ * subdomains (`example.com`, `.example.com` and `*.example.com` alike), may
+ * name a port, and `*` covers every host.
+ */
+export function bypassesProxy(hostname: string, port: number, noProxy: string[]): boolean {
+  const host = stripBrackets(hostname).toLowerCase();
+  return noProxy.some(entry => {
+    if (entry === '*') return true;
+    const match = /^\[(.+)\](?::(\d+))?$/.exec(entry) ?? /^([^:]+)(?::(\d+))?$/.exec(entry);
+    const [name, entryPort] = match ? [match[1], match[2]] : [entry, undefined];
+    if (entryPort && Number(entryPort) !== port) return false;
+    const domain = name.replace(/^\*?\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * The Agent class behind the pool. The undici package is used when the app
+ * has it installed. Otherwise the class comes from the Agent that Node's own
+ * undici registers as its global dispatcher, under the key undici's
+ * setGlobalDispatcher() shares between copies of undici.
+ */
+async function runtimeAgent(): Promise<new (options: object) => Dispatcher> {
+  // A variable specifier keeps undici an optional, untyped dependency
+  const specifier = 'undici';
+  const undici = await import(specifier).catch(() => undefined);
+  if (typeof undici?.Agent === 'function') return undici.Agent;
+
+  const key = Symbol.for('undici.globalDispatcher.1');
+  const global = globalThis as Record<symbol, any>;
+  // Node loads its undici, and registers the Agent, on first use of a fetch
+  // class. Headers does so without a request, which a mocked fetch would take.
+  if (!global[key]) new Headers();
+  const dispatcher = global[key];
+  if (!dispatcher) {
+    throw unsupported("Node's fetch registered no global dispatcher; install the undici package");
+  }
+  const Agent = dispatcher.constructor;
+  if (typeof Agent !== 'function' || Agent.name !== 'Agent') {
+    throw unsupported(
+      `the global dispatcher was replaced by ${Agent?.name || 'an unknown dispatcher'}, so Node's Agent class ` +
+      'cannot be reached; install the undici package'
+    );
+  }
+  return Agent;
+}
+
+/**
+ * A connection pool for Node's fetch with a proxy, TLS settings and
+ * keep-alive limits. Proxied requests, http and https alike, go through a
+ * CONNECT tunnel. The pool is created on first use; close() ends it.
+ */
+export class NodeDispatcher implements DispatcherLike {
+  private _proxy: { http?: string; https?: string; noProxy: string[] } | null = null;
+  private _tls: TlsOptions;
+  private _keepAlive: boolean | KeepAliveOptions;
+  private _dispatcher: Promise<Dispatcher> | null = null;
+
+  constructor(options: NodeDispatcherOptions = {}) {
+    const versions = (globalThis as { process?: { versions?: Record<string, string | undefined> } }).process?.versions;
+    // Bun and Deno have process.versions.node too, but their fetch ignores a dispatcher
+    if (!versions?.node) throw unsupported('they need Node.js, whose fetch takes a dispatcher');
+    if (versions.bun || versions.deno) throw unsupported(`${versions.bun ? 'Bun' : 'Deno'}'s fetch ignores a dispatcher`);
+
+    const { proxy, tls = {}, keepAlive = true } = options;
+    if (proxy) {
+      const { url, noProxy } = proxy === true ? {} : typeof proxy === 'string' ? { url: proxy } : proxy;
+      this._proxy = {
+        http: url ?? env('HTTP_PROXY'),
+        https: url ?? env('HTTPS_PROXY'),
+        noProxy: parseNoProxy(noProxy ?? env('NO_PROXY'))
+      };
+    }
+    this._tls = tls;
+    this._keepAlive = keepAlive;
+  }
+
+  resolve(): Promise<Dispatcher> {
+    this._dispatcher ??= this.create();
+    return this._dispatcher;
+  }
+
+  /** Closes idle connections and lets in-flight requests finish */
+  async close(): Promise<void> {
+    const dispatcher = await this._dispatcher;
+    this._dispatcher = null;
+    await (dispatcher as { close?: () => Promise<void> } | undefined)?.close?.();
+  }
+
+  private async create(): Promise<Dispatcher> {
+    const Agent = await runtimeAgent();
+    const options: Record<string, unknown> = {
+      connect: this._proxy ? await this.connector() : { ...this._tls }
+    };
+    const keepAlive = this._keepAlive;
+    if (keepAlive === false) {
+      // undici keeps no connection open without pipelining
+      options.pipelining = 0;
+    } else if (keepAlive !== true) {
+      if (keepAlive.timeout !== undefined) options.keepAliveTimeout = keepAlive.timeout;
+      if (keepAlive.maxTimeout !== undefined) options.keepAliveMaxTimeout = keepAlive.maxTimeout;
+      if (keepAlive.connections !== undefined) options.connections = keepAlive.connections;
+    }
+    return new Agent(options);
+  }
+
+  private proxyFor(protocol: string, hostname: string, port: number): URL | undefined {
+    const proxy = this._proxy!;
+    const url = protocol === 'https:' ? proxy.https : proxy.http;
+    if (!url || bypassesProxy(hostname, port, proxy.noProxy)) return undefined;
+    return new URL(url);
+  }
+
+  private async connector(): Promise<Connector> {
+    const net = await import('node:net');
+    const tls = await import('node:tls');
+    const http = await import('node:http');
+    const https = await import('node:https');
+    const { servername, ...tlsOptions } = this._tls;
+
+    return ({ hostname, protocol, port }, callback) => {
+      const host = stripBrackets(hostname);
+      const targetPort = Number(port) || (protocol === 'https:' ? 443 : 80);
+      let settled = false;
+      let socket: Duplex | undefined;
+      const finish = (error: Error | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (error) socket?.destroy();
+        callback(error, error ? null : socket!);
+      };
+      const timer = setTimeout(() => finish(new Error(`Connect timeout after ${CONNECT_TIMEOUT}ms`)), CONNECT_TIMEOUT);
+
+      // TLS to the target, over the tunnel when there is one
+      const open = (tunnel?: Duplex) => {
+        if (protocol === 'https:') {
+          socket = tls.connect({
+            ...tlsOptions,
+            socket: tunnel,
+            host,
+            port: targetPort,
+            servername: servername ?? (net.isIP(host) ? undefined : host),
+            ALPNProtocols: ['http/1.1']
+          });
+          socket.once('secureConnect', () => finish(null));
+        } else if (tunnel) {
+          socket = tunnel;
+          finish(null);
+          return;
+        } else {
+          socket = net.connect({ host, port: targetPort });
+          socket.once('connect', () => finish(null));
+        }
+        socket.once('error', finish);
+      };
+
+      const proxy = this.proxyFor(protocol, host, targetPort);
+      if (!proxy) {
+        open();
+        return;
+      }
+
+      const authority = `${net.isIPv6(host) ? `[${host}]` : host}:${targetPort}`;
+      const headers: Record<string, string> = { host: authority };
+      if (proxy.username) {
+        const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+        headers['proxy-authorization'] = `Basic ${base64(credentials)}`;
+      }
+      const secureProxy = proxy.protocol === 'https:';
+      const request = (secureProxy ? https : http).request({
+        host: stripBrackets(proxy.hostname),
+        port: proxy.port || (secureProxy ? 443 : 80),
+        method: 'CONNECT',
+        path: authority,
+        headers,
+        agent: false,
+        // The proxy's own certificate is checked against the same CA
+        ...(secureProxy && tlsOptions)
+      });
+      request.once('connect', (response, tunnel, head) => {
+        if (response.statusCode !== 200) {
+          tunnel.destroy();
+          finish(new Error(`Proxy ${proxy.host} refused CONNECT to ${authority} with status ${response.statusCode}`));
+          return;
+        }
+        if (head.length) tunnel.unshift(head);
+        open(tunnel);
+      });
+      request.once('error', finish);
+      request.end();
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Tiny typed event emitter - superagent-style `.on()` without depending on node:events
+ */
+
+type Listener = (...args: any[]) => void;
+
+export type EventMap<T> = { [K in keyof T]: Listener };
+
+export class Emitter<Events extends EventMap<Events>> {
+  private _listeners = new Map<keyof Events, Listener[]>();
+
+  on<K extends keyof Events>(event: K, listener: Events[K]): this {
+    const listeners = this._listeners.get(event) ?? [];
+    listeners.push(listener);
+    this._listeners.set(event, listeners);
+    return this;
+  }
+
+  once<K extends keyof Events>(event: K, listener: Events[K]): this {
+    const wrapper = ((...args: any[]) => {
+      this.off(event, wrapper as Events[K]);
+      listener(...args);
+    }) as Events[K];
+    return this.on(event, wrapper);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Events[K]): this {
+    const listeners = this._listeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    }
+    return this;
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): boolean {
+    const listeners = this._listeners.get(event);
+    if (!listeners || listeners.length === 0) return false;
+    for (const listener of [...listeners]) {
+      listener(...args);
+    }
+    return true;
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this._listeners.get(event)?.length ?? 0;
+  }
+}
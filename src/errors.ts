@@ -3,22 +3,150 @@
  */
 
 import type { Response } from './response.js';
+import type { ErrorTimings, TimeoutPhase, StandardSchemaIssue } from './types.js';
+import { formatIssues } from './validate.js';
 
-export class HTTPError extends Error {
+const REDACTED = '[REDACTED]';
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+const SENSITIVE_HEADER_PATTERN = /token|secret|password|api[-_]?key|session/i;
+
+/**
+ * Copies headers with credential-bearing values replaced, so errors can be
+ * logged as they are.
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const sensitive = SENSITIVE_HEADERS.includes(name.toLowerCase()) || SENSITIVE_HEADER_PATTERN.test(name);
+    result[name] = sensitive ? REDACTED : value;
+  }
+  return result;
+}
+
+function summarizeBody(text: string, max = 200): string {
+  const summary = text.replace(/\s+/g, ' ').trim();
+  return summary.length > max ? `${summary.slice(0, max)}…` : summary;
+}
+
+/**
+ * Base class for every error a request raises. The request fills in its
+ * context before the error reaches hooks or callers.
+ */
+export class RequestError extends Error {
+  method = '';
+  url = '';
+  attempt = 0;                             // 1 for the first try, counting retries
+  timings: ErrorTimings | undefined;       // Of the attempt that failed
+  headers: Record<string, string> = {};    // Request headers, secrets redacted
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RequestError';
+  }
+}
+
+export class HTTPError extends RequestError {
   readonly response: Response;
   readonly status: number;
 
   constructor(response: Response) {
-    super(`Request failed with status ${response.status}: ${response.statusText}`);
+    const summary = summarizeBody(response.text || '');
+    super(`Request failed with status ${response.status}: ${response.statusText}${summary ? ` - ${summary}` : ''}`);
     this.name = 'HTTPError';
     this.response = response;
     this.status = response.status;
   }
 }
 
-export class TimeoutError extends Error {
-  constructor(message = 'Request timed out') {
-    super(message);
+export class NetworkError extends RequestError {
+  readonly code: string | undefined; // e.g. ECONNREFUSED, found on the cause chain
+
+  constructor(cause: unknown, code?: string) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Network error: ${reason}${code ? ` (${code})` : ''}`, { cause });
+    this.name = 'NetworkError';
+    this.code = code;
+  }
+}
+
+export class AbortError extends RequestError {
+  constructor(message = 'Request was aborted', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AbortError';
+  }
+}
+
+export class TimeoutError extends RequestError {
+  readonly phase: TimeoutPhase;
+  readonly timeout: number | undefined;
+
+  constructor(message?: string, options: { phase?: TimeoutPhase; timeout?: number; cause?: unknown } = {}) {
+    const { phase = 'request', timeout, cause } = options;
+    super(message ?? `Request timed out (${phase} timeout${timeout !== undefined ? ` of ${timeout}ms` : ''})`, { cause });
     this.name = 'TimeoutError';
+    this.phase = phase;
+    this.timeout = timeout;
+  }
+}
+
+export class ParseError extends RequestError {
+  readonly text: string; // The body that failed to parse
+
+  constructor(text: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Failed to parse response body: ${reason}`, { cause });
+    this.name = 'ParseError';
+    this.text = text;
+  }
+}
+
+export class AuthError extends RequestError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class ResponseTooLargeError extends RequestError {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Response body exceeds the maximum size of ${limit} bytes`);
+    this.name = 'ResponseTooLargeError';
+    this.limit = limit;
+  }
+}
+
+export class CircuitOpenError extends RequestError {
+  readonly key: string;
+  readonly retryAfter: number; // Ms until the circuit lets a probe through
+
+  constructor(key: string, retryAfter: number) {
+    super(`Circuit breaker is open for ${key}`);
+    this.name = 'CircuitOpenError';
+    this.key = key;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ResponseValidationError extends RequestError {
+  readonly response: Response;
+  readonly issues: ReadonlyArray<StandardSchemaIssue>;
+
+  constructor(response: Response, issues: ReadonlyArray<StandardSchemaIssue>) {
+    super(`Response validation failed: ${formatIssues(issues)}`);
+    this.name = 'ResponseValidationError';
+    this.response = response;
+    this.issues = issues;
+  }
+}
+
+export class RequestValidationError extends RequestError {
+  readonly issues: ReadonlyArray<StandardSchemaIssue>;
+
+  constructor(issues: ReadonlyArray<StandardSchemaIssue>) {
+    super(`Request body validation failed: ${formatIssues(issues)}`);
+    this.name = 'RequestValidationError';
+    this.issues = issues;
   }
 }
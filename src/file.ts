@@ -0,0 +1,58 @@
+/**
+ * File helpers for attach() - paths are opened lazily so uploads stream from disk
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  xml: 'application/xml',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tar: 'application/x-tar',
+  wasm: 'application/wasm',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime'
+};
+
+export function guessMimeType(path: string): string {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return MIME_TYPES[extension] || 'application/octet-stream';
+}
+
+export function basename(path: string): string {
+  return path.slice(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+}
+
+/**
+ * Opens a file as a Blob. On Node 19.8+ the Blob is backed by the file and
+ * read on demand; older runtimes fall back to reading it into memory.
+ */
+export async function openFile(path: string): Promise<Blob> {
+  const fs = await import('node:fs');
+  const type = guessMimeType(path);
+  if (typeof fs.openAsBlob === 'function') {
+    return fs.openAsBlob(path, { type });
+  }
+  return new Blob([await fs.promises.readFile(path)], { type });
+}
@@ -8,14 +8,71 @@
 export type {
   RequestOptions,
   TimeoutOptions,
+  TimeoutPhase,
+  ErrorTimings,
   RetryOptions,
+  RetryContext,
+  JitterStrategy,
   Hooks,
   BeforeRequestHook,
   AfterResponseHook,
   BeforeRetryHook,
   BeforeErrorHook,
+  Plugin,
+  PluginObject,
   FileAttachment,
+  CookieJarLike,
+  CacheOptions,
+  CacheStore,
+  CacheEntry,
+  CacheStatus,
+  CircuitBreakerOptions,
+  CircuitBreakerLike,
+  CircuitState,
+  CircuitOutcome,
+  CircuitStateChange,
+  RateLimitOptions,
+  RequestQueueLike,
+  DedupeOptions,
+  RequestDeduperLike,
+  ProxyOptions,
+  TlsOptions,
+  KeepAliveOptions,
+  DispatcherLike,
+  AuthRequest,
+  AuthProviderLike,
+  OAuth2Options,
+  OAuth2Token,
+  DigestOptions,
+  RequestSigner,
+  ContentEncoding,
+  CompressionOptions,
+  ProgressEvent,
+  ServerSentEvent,
+  EventStreamOptions,
+  WritableLike,
   ResponseHeaders,
+  Timings,
+  Attributes,
+  Observer,
+  RequestStartEvent,
+  RequestAttemptEvent,
+  RequestResponseEvent,
+  RequestErrorEvent,
+  SpanLike,
+  TracerLike,
+  TracingOptions,
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  Validator,
+  Parser,
+  Serializer,
+  ParserContext,
+  SerializerContext,
+  ResponseType,
+  ArrayFormat,
+  ParamsSerializer,
   InstanceOptions,
   FetchCredentials,
   FetchRedirect
@@ -23,11 +80,38 @@ export type {
 
 // Classes
 export { Response } from './response.js';
-export { Request } from './request.js';
-export { HTTPError, TimeoutError } from './errors.js';
+export { Request, type RequestEvents } from './request.js';
+export {
+  RequestError,
+  HTTPError,
+  NetworkError,
+  AbortError,
+  TimeoutError,
+  ParseError,
+  AuthError,
+  ResponseTooLargeError,
+  CircuitOpenError,
+  ResponseValidationError,
+  RequestValidationError,
+  redactHeaders
+} from './errors.js';
+export { CookieJar, type Cookie, type SerializedCookieJar } from './cookies.js';
+export { HttpCache, MemoryCacheStore } from './cache.js';
+export { CircuitBreaker, type CircuitBreakerEvents } from './circuit-breaker.js';
+export { RequestQueue, parseRateLimit, type RequestQueueOptions } from './queue.js';
+export { RequestDeduper } from './dedupe.js';
+export { NodeDispatcher, type NodeDispatcherOptions } from './dispatcher.js';
+export { DEFAULT_PARSERS, DEFAULT_SERIALIZERS, findCodec } from './codecs.js';
+export { toQueryPairs, stringifyQuery, type QueryPair } from './querystring.js';
+export { OAuth2Auth, DigestAuth, SigningAuth, parseChallenges } from './auth.js';
+export { compressBytes, decodeStream } from './compression.js';
+export { RequestTrace, requestAttributes, parseTraceparent } from './telemetry.js';
+export { EventStream, EventStreamParser, type EventStreamEvents } from './sse.js';
+export { Paginator, parseLinkHeader, type PaginateOptions, type Link } from './paginate.js';
 
 // Instance factory
-export { createInstance, type RequestInstance } from './instance.js';
+export { createInstance, mergeOptions, type RequestInstance } from './instance.js';
+export { InterceptorManager } from './interceptors.js';
 
 // Create default instance
 import { createInstance } from './instance.js';
@@ -45,3 +129,6 @@ export const patch = request.patch;
 export const del = request.delete;
 export const head = request.head;
 export const options = request.options;
+export const agent = request.agent;
+export const paginate = request.paginate;
+export const sse = request.sse;
@@ -2,54 +2,202 @@
  * Instance factory - axios-style instance creation
  */
 
-import type { InstanceOptions } from './types.js';
+import type {
+  InstanceOptions,
+  EventStreamOptions,
+  Parser,
+  Serializer,
+  Plugin,
+  Hooks,
+  BeforeRequestHook,
+  AfterResponseHook,
+  BeforeErrorHook
+} from './types.js';
+import type { Paginator, PaginateOptions } from './paginate.js';
+import type { EventStream } from './sse.js';
 import { Request } from './request.js';
+import { CookieJar } from './cookies.js';
+import { MemoryCacheStore } from './cache.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { RequestQueue } from './queue.js';
+import { RequestDeduper } from './dedupe.js';
+import { NodeDispatcher } from './dispatcher.js';
+import { DEFAULT_PARSERS, DEFAULT_SERIALIZERS } from './codecs.js';
+import { InterceptorManager } from './interceptors.js';
 
-export interface RequestInstance {
-  (method: string, url: string): Request;
-  get: (url: string) => Request;
-  post: (url: string) => Request;
-  put: (url: string) => Request;
-  patch: (url: string) => Request;
-  delete: (url: string) => Request;
-  del: (url: string) => Request;
-  head: (url: string) => Request;
-  options: (url: string) => Request;
-  create: (options?: InstanceOptions) => RequestInstance;
-  extend: (options?: InstanceOptions) => RequestInstance;
+/**
+ * `M` holds the helper methods that plugins used on the instance add to
+ * its requests.
+ */
+export interface RequestInstance<M extends object = {}> {
+  <T = any, P extends string = string>(method: string, url: P): Request<T, P> & M;
+  get: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  post: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  put: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  patch: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  delete: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  del: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  head: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  options: <T = any, P extends string = string>(url: P) => Request<T, P> & M;
+  create: (options?: InstanceOptions) => RequestInstance<M>;
+  // A function gets the parent's options and returns the new ones, unmerged
+  extend: (options?: InstanceOptions | ((parent: InstanceOptions) => InstanceOptions)) => RequestInstance<M>;
+  agent: (options?: InstanceOptions) => RequestInstance<M>;
+  use: <P extends object = {}>(plugin: Plugin<P>) => RequestInstance<M & P>; // Adds the plugin to every later request
+  paginate: <T = any>(url: string, options?: PaginateOptions<T>) => Paginator<T>;
+  sse: (url: string, options?: EventStreamOptions) => EventStream;
+  interceptors: {
+    request: InterceptorManager<BeforeRequestHook>;
+    response: InterceptorManager<AfterResponseHook, BeforeErrorHook>;
+  };
+  parse: Record<string, Parser>;         // superagent-style registry: `api.parse['application/xml'] = fn`
+  serialize: Record<string, Serializer>;
+  queue?: RequestQueue; // Pending and active counts when concurrency or rateLimit is set
   defaults: InstanceOptions;
 }
 
+function mergeHeaders(...sources: Array<InstanceOptions['headers']>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source ?? {})) {
+      if (value === undefined) delete headers[name.toLowerCase()];
+      else headers[name.toLowerCase()] = value;
+    }
+  }
+  return headers;
+}
+
+function mergeHooks(...sources: Array<Hooks | undefined>): Hooks {
+  return {
+    beforeRequest: sources.flatMap(hooks => hooks?.beforeRequest ?? []),
+    afterResponse: sources.flatMap(hooks => hooks?.afterResponse ?? []),
+    beforeRetry: sources.flatMap(hooks => hooks?.beforeRetry ?? []),
+    beforeError: sources.flatMap(hooks => hooks?.beforeError ?? [])
+  };
+}
+
+// Merges `retry` or `timeout`, either of which may be given as a bare number
+function mergeShorthand<T extends object>(
+  parent: number | T | undefined,
+  child: number | T | undefined,
+  key: keyof T
+): number | T | undefined {
+  if (parent === undefined || child === undefined) return child ?? parent;
+  const expand = (value: number | T) => (typeof value === 'number' ? { [key]: value } as T : value);
+  return { ...expand(parent), ...expand(child) };
+}
+
+/**
+ * Combines parent and child instance options. Headers merge
+ * case-insensitively and `undefined` removes one; hooks and plugins are
+ * appended; retry, timeout and the codec registries merge; any other option
+ * in `child` replaces the parent's, even when set to `undefined`.
+ */
+export function mergeOptions(parent: InstanceOptions, child: InstanceOptions): InstanceOptions {
+  const merged: InstanceOptions = {
+    ...parent,
+    ...child,
+    headers: mergeHeaders(parent.headers, child.headers),
+    hooks: mergeHooks(parent.hooks, child.hooks),
+    parsers: { ...parent.parsers, ...child.parsers },
+    serializers: { ...parent.serializers, ...child.serializers },
+    plugins: [...(parent.plugins ?? []), ...(child.plugins ?? []).filter(plugin => !parent.plugins?.includes(plugin))]
+  };
+  if (!('retry' in child) || child.retry !== undefined) {
+    merged.retry = mergeShorthand(parent.retry, child.retry, 'limit');
+  }
+  if (!('timeout' in child) || child.timeout !== undefined) {
+    merged.timeout = mergeShorthand(parent.timeout, child.timeout, 'request');
+  }
+  return merged;
+}
+
 export function createInstance(options: InstanceOptions = {}): RequestInstance {
-  const defaults: InstanceOptions = { ...options };
+  const defaults: InstanceOptions = { ...options, headers: mergeHeaders(options.headers) };
 
   // Support ky-style prefixUrl
   if (defaults.prefixUrl && !defaults.baseURL) {
     defaults.baseURL = defaults.prefixUrl;
   }
 
-  const resolveUrl = (url: string): string => {
-    if (defaults.baseURL && !url.startsWith('http://') && !url.startsWith('https://')) {
-      const base = defaults.baseURL.endsWith('/') ? defaults.baseURL.slice(0, -1) : defaults.baseURL;
-      const path = url.startsWith('/') ? url : `/${url}`;
-      return `${base}${path}`;
-    }
-    return url;
+  // One store per instance so every request shares the cache
+  if (defaults.cache && (defaults.cache === true || !defaults.cache.store)) {
+    defaults.cache = { ...(defaults.cache === true ? {} : defaults.cache), store: new MemoryCacheStore() };
+  }
+
+  // Likewise one breaker, so failures from every caller count towards a circuit
+  if (defaults.circuitBreaker && (defaults.circuitBreaker === true || !('acquire' in defaults.circuitBreaker))) {
+    defaults.circuitBreaker = new CircuitBreaker(defaults.circuitBreaker === true ? {} : defaults.circuitBreaker);
+  }
+
+  // Requests can only share fetches through a deduper they have in common
+  if (defaults.dedupe && (defaults.dedupe === true || !('fetch' in defaults.dedupe))) {
+    defaults.dedupe = new RequestDeduper(defaults.dedupe === true ? {} : defaults.dedupe);
+  }
+
+  // Registries are copied, so adding a codec never leaks into a parent instance
+  defaults.parsers = { ...DEFAULT_PARSERS, ...defaults.parsers };
+  defaults.serializers = { ...DEFAULT_SERIALIZERS, ...defaults.serializers };
+
+  // Copied so use() on this instance leaves its parent alone
+  defaults.plugins = [...(defaults.plugins ?? [])];
+
+  // One connection pool for the instance; an extended instance gets its own
+  if (defaults.proxy || defaults.tls || defaults.keepAlive !== undefined) {
+    defaults.dispatcher = new NodeDispatcher({
+      proxy: defaults.proxy,
+      tls: defaults.tls,
+      keepAlive: defaults.keepAlive
+    });
+  }
+
+  const queue = defaults.concurrency || defaults.rateLimit
+    ? new RequestQueue({ concurrency: defaults.concurrency, rateLimit: defaults.rateLimit })
+    : undefined;
+
+  const interceptors = {
+    request: new InterceptorManager<BeforeRequestHook>(),
+    response: new InterceptorManager<AfterResponseHook, BeforeErrorHook>()
   };
 
   const createRequest = (method: string, url: string): Request => {
-    return new Request(method, resolveUrl(url), {
-      headers: defaults.headers,
+    const request = new Request(method, url, {
+      baseURL: defaults.baseURL,
+      headers: defaults.headers as Record<string, string>,
       timeout: defaults.timeout,
       retry: defaults.retry,
-      hooks: defaults.hooks,
+      // Interceptors as they are now; ejecting one later leaves this request alone
+      hooks: mergeHooks(defaults.hooks, {
+        beforeRequest: interceptors.request.fulfilled(),
+        afterResponse: interceptors.response.fulfilled(),
+        beforeError: interceptors.response.rejected()
+      }),
       throwHttpErrors: defaults.throwHttpErrors,
       parseJson: defaults.parseJson,
       stringifyJson: defaults.stringifyJson,
+      parsers: defaults.parsers,
+      serializers: defaults.serializers,
+      arrayFormat: defaults.arrayFormat,
+      paramsSerializer: defaults.paramsSerializer,
+      signal: defaults.signal,
       credentials: defaults.credentials,
       redirect: defaults.redirect,
+      cookieJar: defaults.cookieJar,
+      cache: defaults.cache,
+      circuitBreaker: defaults.circuitBreaker,
+      queue,
+      dispatcher: defaults.dispatcher,
+      dedupe: defaults.dedupe,
+      auth: defaults.auth,
+      compressRequests: defaults.compressRequests,
+      decompress: defaults.decompress,
+      maxResponseSize: defaults.maxResponseSize,
+      observer: defaults.observer,
+      tracing: defaults.tracing,
       fetch: defaults.fetch
     });
+    for (const plugin of defaults.plugins!) request.use(plugin);
+    return request;
   };
 
   const instance = ((method: string, url: string) => createRequest(method, url)) as RequestInstance;
@@ -62,8 +210,27 @@ export function createInstance(options: InstanceOptions = {}): RequestInstance {
   instance.del = (url: string) => createRequest('DELETE', url);
   instance.head = (url: string) => createRequest('HEAD', url);
   instance.options = (url: string) => createRequest('OPTIONS', url);
-  instance.create = (opts?: InstanceOptions) => createInstance({ ...defaults, ...opts });
-  instance.extend = (opts?: InstanceOptions) => createInstance({ ...defaults, ...opts });
+  instance.paginate = <T = any>(url: string, opts?: PaginateOptions<T>) =>
+    createRequest('GET', url).paginate<T>(opts);
+  instance.sse = (url: string, opts?: EventStreamOptions) => createRequest('GET', url).events(opts);
+  instance.create = (opts?: InstanceOptions) => createInstance(mergeOptions(defaults, opts ?? {}));
+  instance.extend = (opts?: InstanceOptions | ((parent: InstanceOptions) => InstanceOptions)) =>
+    createInstance(typeof opts === 'function' ? opts({ ...defaults }) : mergeOptions(defaults, opts ?? {}));
+  // superagent-style agent: same defaults plus a cookie jar and deduper shared by its requests
+  instance.agent = (opts?: InstanceOptions) => createInstance(mergeOptions(defaults, {
+    dedupe: defaults.dedupe instanceof RequestDeduper ? defaults.dedupe.options : defaults.dedupe,
+    ...opts,
+    cookieJar: opts?.cookieJar ?? new CookieJar()
+  }));
+  instance.use = <P extends object>(plugin: Plugin<P>) => {
+    // Requests skip a second plugin with the same name themselves
+    if (!defaults.plugins!.includes(plugin)) defaults.plugins!.push(plugin);
+    return instance as RequestInstance<P>;
+  };
+  instance.interceptors = interceptors;
+  instance.parse = defaults.parsers;
+  instance.serialize = defaults.serializers;
+  instance.queue = queue;
   instance.defaults = defaults;
 
   return instance;
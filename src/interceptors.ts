@@ -0,0 +1,36 @@
+/**
+ * Interceptors - axios-style hooks that can be removed again
+ */
+
+export class InterceptorManager<TFulfilled, TRejected = never> {
+  private _handlers = new Map<number, { fulfilled?: TFulfilled; rejected?: TRejected }>();
+  private _nextId = 0;
+
+  /** Adds a handler pair and returns its id for eject() */
+  use(fulfilled?: TFulfilled, rejected?: TRejected): number {
+    const id = this._nextId++;
+    this._handlers.set(id, { fulfilled, rejected });
+    return id;
+  }
+
+  eject(id: number): void {
+    this._handlers.delete(id);
+  }
+
+  clear(): void {
+    this._handlers.clear();
+  }
+
+  get size(): number {
+    return this._handlers.size;
+  }
+
+  /** Handlers in the order they were added, for a request being created */
+  fulfilled(): TFulfilled[] {
+    return [...this._handlers.values()].flatMap(handler => (handler.fulfilled ? [handler.fulfilled] : []));
+  }
+
+  rejected(): TRejected[] {
+    return [...this._handlers.values()].flatMap(handler => (handler.rejected ? [handler.rejected] : []));
+  }
+}
@@ -0,0 +1,552 @@
+/**
+ * superagent-lite/mock - mock fetch transport and record/replay fixtures
+ *
+ * Both produce a `fetch` function, so they plug into `InstanceOptions.fetch`
+ * or replace the global fetch via install().
+ */
+
+type FetchInput = Parameters<typeof fetch>[0];
+type UrlMatcher = string | RegExp | ((url: URL) => boolean);
+type QueryMatcher = Record<string, string | number | boolean> | ((params: URLSearchParams) => boolean);
+type HeaderMatcher = string | RegExp | ((value: string | undefined) => boolean);
+type BodyMatcher = string | RegExp | Record<string, any> | ((body: string) => boolean);
+
+export interface MockRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: string;      // Decoded as UTF-8, for matching
+  bytes: Uint8Array; // The body as sent
+}
+
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+  text?: string;
+  body?: RequestInit['body'];
+}
+
+export interface MockCall {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  bytes: Uint8Array;
+  matched: boolean;
+}
+
+export interface MockFetchOptions {
+  fallback?: typeof fetch; // Used for unmatched requests instead of rejecting
+}
+
+export interface RecorderOptions {
+  fixture: string;                       // Path to the JSON fixture file
+  mode?: 'record' | 'replay' | 'auto';   // auto: replay if the fixture exists
+  fetch?: typeof fetch;                  // Network fetch used while recording
+}
+
+export interface RecordedExchange {
+  request: { method: string; url: string; body?: string; encoding?: 'utf8' | 'base64' };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return String(a) === String(b);
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => deepEqual(a[key], b[key]));
+}
+
+function parseBody(body: string, contentType = ''): unknown {
+  if (contentType.includes('form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+function hasNullBody(status: number, method: string): boolean {
+  return status === 204 || status === 205 || status === 304 || method === 'HEAD';
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+function sleep(ms: number, signal: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    }, { once: true });
+  });
+}
+
+/**
+ * Errors the body with the abort reason if the signal fires before it is
+ * read, as fetch does, so timeouts and abort() reach a slow mocked body.
+ */
+function abortableBody(body: ReadableStream<Uint8Array>, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortError(signal));
+    if (signal.aborted) onAbort();
+    else signal.addEventListener('abort', onAbort, { once: true });
+  });
+  aborted.catch(() => {});
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = await Promise.race([reader.read(), aborted]);
+        if (result.done) {
+          signal.removeEventListener('abort', onAbort);
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      } catch (error) {
+        signal.removeEventListener('abort', onAbort);
+        reader.cancel(error).catch(() => {});
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      signal.removeEventListener('abort', onAbort);
+      return reader.cancel(reason);
+    }
+  });
+}
+
+async function readRequest(input: FetchInput, init?: RequestInit): Promise<MockRequest> {
+  const request = new globalThis.Request(input, init);
+  const bytes = request.body ? new Uint8Array(await request.arrayBuffer()) : new Uint8Array(0);
+  return {
+    method: request.method,
+    url: new URL(request.url),
+    headers: headersToObject(request.headers),
+    body: new TextDecoder().decode(bytes),
+    bytes
+  };
+}
+
+// Forwards the body as sent; a decoded string would change binary bytes
+function forwardInit(request: MockRequest, init?: RequestInit): RequestInit {
+  return { ...init, body: request.bytes.byteLength > 0 ? request.bytes : undefined, duplex: undefined };
+}
+
+// Text bodies stay readable in fixtures; anything else is kept as base64
+function recordedBody(bytes: Uint8Array): { body?: string; encoding?: 'base64' } {
+  if (bytes.byteLength === 0) return {};
+  try {
+    return { body: new TextDecoder('utf-8', { fatal: true }).decode(bytes) };
+  } catch {
+    return { body: Buffer.from(bytes).toString('base64'), encoding: 'base64' };
+  }
+}
+
+// ============================================================================
+// Interceptors
+// ============================================================================
+
+export class Interceptor {
+  readonly method: string;
+  private _url: UrlMatcher;
+  private _query: QueryMatcher | null = null;
+  private _headers: Array<[string, HeaderMatcher]> = [];
+  private _body: BodyMatcher | null = null;
+  private _reply: MockReply | ((request: MockRequest) => MockReply | Promise<MockReply>) = { status: 200 };
+  private _error: Error | null = null;
+  private _delay = 0;
+  private _times = 1;
+  private _persist = false;
+  calls = 0;
+
+  constructor(method: string, url: UrlMatcher) {
+    this.method = method.toUpperCase();
+    this._url = url;
+
+    // A query string in a string pattern becomes the query matcher
+    if (typeof url === 'string' && url.includes('?')) {
+      const [path, search] = url.split('?');
+      this._url = path;
+      this._query = Object.fromEntries(new URLSearchParams(search));
+    }
+  }
+
+  query(matcher: QueryMatcher): this {
+    this._query = matcher;
+    return this;
+  }
+
+  matchHeader(name: string, matcher: HeaderMatcher): this {
+    this._headers.push([name.toLowerCase(), matcher]);
+    return this;
+  }
+
+  matchBody(matcher: BodyMatcher): this {
+    this._body = matcher;
+    return this;
+  }
+
+  /**
+   * Objects and arrays are sent as JSON, strings as text.
+   */
+  reply(
+    status: number | ((request: MockRequest) => MockReply | Promise<MockReply>),
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): this {
+    if (typeof status === 'function') {
+      this._reply = status;
+    } else if (typeof body === 'string' || body === undefined) {
+      this._reply = { status, text: body as string | undefined, headers };
+    } else {
+      this._reply = { status, json: body, headers };
+    }
+    return this;
+  }
+
+  /**
+   * Rejects like a failed network call. A string becomes the `cause` of a
+   * `TypeError('fetch failed')`, matching what undici throws; an error code
+   * such as 'ECONNRESET' is also set as the cause's `code`.
+   */
+  replyWithError(error: Error | string): this {
+    if (typeof error === 'string') {
+      const cause: Error & { code?: string } = new Error(error);
+      if (/^[A-Z][A-Z0-9_]+$/.test(error)) cause.code = error;
+      this._error = new TypeError('fetch failed', { cause });
+    } else {
+      this._error = error;
+    }
+    return this;
+  }
+
+  delay(ms: number): this {
+    this._delay = ms;
+    return this;
+  }
+
+  times(count: number): this {
+    this._times = count;
+    return this;
+  }
+
+  persist(): this {
+    this._persist = true;
+    return this;
+  }
+
+  get isDone(): boolean {
+    return this._persist ? this.calls > 0 : this.calls >= this._times;
+  }
+
+  get exhausted(): boolean {
+    return !this._persist && this.calls >= this._times;
+  }
+
+  describe(): string {
+    const url = typeof this._url === 'function' ? '<function>' : String(this._url);
+    return `${this.method} ${url}`;
+  }
+
+  matches(request: MockRequest): boolean {
+    if (this.exhausted) return false;
+    if (this.method !== '*' && this.method !== request.method) return false;
+    if (!this.matchesUrl(request.url)) return false;
+
+    if (typeof this._query === 'function') {
+      if (!this._query(request.url.searchParams)) return false;
+    } else if (this._query) {
+      for (const [key, value] of Object.entries(this._query)) {
+        if (request.url.searchParams.get(key) !== String(value)) return false;
+      }
+    }
+
+    for (const [name, matcher] of this._headers) {
+      const value = request.headers[name];
+      if (typeof matcher === 'function' ? !matcher(value) :
+          matcher instanceof RegExp ? !matcher.test(value ?? '') :
+          value !== matcher) {
+        return false;
+      }
+    }
+
+    if (this._body !== null) {
+      const matcher = this._body;
+      if (typeof matcher === 'function') return matcher(request.body);
+      if (matcher instanceof RegExp) return matcher.test(request.body);
+      if (typeof matcher === 'string') return matcher === request.body;
+      return deepEqual(parseBody(request.body, request.headers['content-type']), matcher);
+    }
+
+    return true;
+  }
+
+  async respond(request: MockRequest, signal: AbortSignal | null): Promise<globalThis.Response> {
+    this.calls++;
+    if (this._delay > 0) await sleep(this._delay, signal);
+    if (this._error) throw this._error;
+
+    const reply = typeof this._reply === 'function' ? await this._reply(request) : this._reply;
+    const headers = new Headers(reply.headers);
+    let body: RequestInit['body'] = reply.body ?? null;
+
+    if (reply.json !== undefined) {
+      body = JSON.stringify(reply.json);
+      if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    } else if (reply.text !== undefined) {
+      body = reply.text;
+      if (!headers.has('content-type')) headers.set('content-type', 'text/plain');
+    }
+
+    const status = reply.status ?? 200;
+    const response = new globalThis.Response(hasNullBody(status, request.method) ? null : body, { status, headers });
+    return signal && response.body
+      ? new globalThis.Response(abortableBody(response.body, signal), { status, headers: response.headers })
+      : response;
+  }
+
+  private matchesUrl(url: URL): boolean {
+    const matcher = this._url;
+    if (typeof matcher === 'function') return matcher(url);
+    if (matcher instanceof RegExp) return matcher.test(url.href);
+    // "/path" matches any origin; a full URL must match origin and path
+    return matcher.startsWith('/')
+      ? url.pathname === matcher
+      : `${url.origin}${url.pathname}` === new URL(matcher).href.replace(/\?.*$/, '');
+  }
+}
+
+// ============================================================================
+// Mock fetch
+// ============================================================================
+
+export class MockFetch {
+  readonly calls: MockCall[] = [];
+  readonly fetch: typeof fetch;
+  private _interceptors: Interceptor[] = [];
+  private _fallback: typeof fetch | null;
+  private _originalFetch: typeof fetch | null = null;
+
+  constructor(options: MockFetchOptions = {}) {
+    this._fallback = options.fallback ?? null;
+    this.fetch = ((input: FetchInput, init?: RequestInit) => this.handle(input, init)) as typeof fetch;
+  }
+
+  intercept(method: string, url: UrlMatcher): Interceptor {
+    const interceptor = new Interceptor(method, url);
+    this._interceptors.push(interceptor);
+    return interceptor;
+  }
+
+  get(url: UrlMatcher): Interceptor { return this.intercept('GET', url); }
+  post(url: UrlMatcher): Interceptor { return this.intercept('POST', url); }
+  put(url: UrlMatcher): Interceptor { return this.intercept('PUT', url); }
+  patch(url: UrlMatcher): Interceptor { return this.intercept('PATCH', url); }
+  delete(url: UrlMatcher): Interceptor { return this.intercept('DELETE', url); }
+  head(url: UrlMatcher): Interceptor { return this.intercept('HEAD', url); }
+  options(url: UrlMatcher): Interceptor { return this.intercept('OPTIONS', url); }
+  any(url: UrlMatcher): Interceptor { return this.intercept('*', url); }
+
+  /**
+   * Interceptors that still expect calls.
+   */
+  pendingMocks(): string[] {
+    return this._interceptors.filter(interceptor => !interceptor.isDone).map(i => i.describe());
+  }
+
+  isDone(): boolean {
+    return this.pendingMocks().length === 0;
+  }
+
+  assertDone(): void {
+    const pending = this.pendingMocks();
+    if (pending.length > 0) {
+      throw new Error(`Pending mocks were not called:\n  ${pending.join('\n  ')}`);
+    }
+  }
+
+  reset(): void {
+    this._interceptors = [];
+    this.calls.length = 0;
+  }
+
+  /**
+   * Replaces globalThis.fetch, which every Request without a custom fetch uses.
+   */
+  install(): this {
+    if (!this._originalFetch) {
+      this._originalFetch = globalThis.fetch;
+      globalThis.fetch = this.fetch;
+    }
+    return this;
+  }
+
+  restore(): void {
+    if (this._originalFetch) {
+      globalThis.fetch = this._originalFetch;
+      this._originalFetch = null;
+    }
+  }
+
+  private async handle(input: FetchInput, init?: RequestInit): Promise<globalThis.Response> {
+    const request = await readRequest(input, init);
+    const interceptor = this._interceptors.find(candidate => candidate.matches(request));
+
+    this.calls.push({
+      method: request.method,
+      url: request.url.href,
+      headers: request.headers,
+      body: request.body,
+      bytes: request.bytes,
+      matched: Boolean(interceptor)
+    });
+
+    if (interceptor) {
+      return interceptor.respond(request, init?.signal ?? null);
+    }
+    if (this._fallback) {
+      return this._fallback(request.url.href, forwardInit(request, init));
+    }
+    throw new Error(`No mock matched ${request.method} ${request.url.href}`);
+  }
+}
+
+export function createMockFetch(options?: MockFetchOptions): MockFetch {
+  return new MockFetch(options);
+}
+
+// ============================================================================
+// Record / replay
+// ============================================================================
+
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded|x-ndjson)\b/;
+
+export class Recorder {
+  readonly fetch: typeof fetch;
+  readonly exchanges: RecordedExchange[] = [];
+  private _options: RecorderOptions;
+  private _mode: Promise<'record' | 'replay'>;
+  private _used = new Set<RecordedExchange>();
+  private _writes: Promise<void> = Promise.resolve();
+
+  constructor(options: RecorderOptions) {
+    this._options = options;
+    this._mode = this.load();
+    // Surfaced by the first fetch instead of as an unhandled rejection
+    this._mode.catch(() => {});
+    this.fetch = ((input: FetchInput, init?: RequestInit) => this.handle(input, init)) as typeof fetch;
+  }
+
+  private async load(): Promise<'record' | 'replay'> {
+    const fs = await import('node:fs/promises');
+    const mode = this._options.mode ?? 'auto';
+    if (mode === 'record') return 'record';
+
+    try {
+      const fixture = JSON.parse(await fs.readFile(this._options.fixture, 'utf8'));
+      this.exchanges.push(...fixture.exchanges);
+      return 'replay';
+    } catch (error) {
+      if (mode === 'replay') throw error;
+      return 'record';
+    }
+  }
+
+  private async handle(input: FetchInput, init?: RequestInit): Promise<globalThis.Response> {
+    const mode = await this._mode;
+    const request = await readRequest(input, init);
+    return mode === 'replay' ? this.replay(request) : this.record(request, init);
+  }
+
+  private replay(request: MockRequest): globalThis.Response {
+    const sent = recordedBody(request.bytes);
+    const candidates = this.exchanges.filter(exchange =>
+      exchange.request.method === request.method &&
+      exchange.request.url === request.url.href &&
+      exchange.request.body === sent.body &&
+      exchange.request.encoding === sent.encoding
+    );
+    // Replay in recorded order; repeat the last one if called more often
+    const exchange = candidates.find(candidate => !this._used.has(candidate)) ?? candidates[candidates.length - 1];
+    if (!exchange) {
+      throw new Error(`No recorded exchange for ${request.method} ${request.url.href} in ${this._options.fixture}`);
+    }
+    this._used.add(exchange);
+
+    const { status, statusText, headers, body, encoding } = exchange.response;
+    const bytes = encoding === 'base64' ? Buffer.from(body, 'base64') : body;
+    return new globalThis.Response(hasNullBody(status, request.method) ? null : bytes, { status, statusText, headers });
+  }
+
+  private async record(request: MockRequest, init?: RequestInit): Promise<globalThis.Response> {
+    const networkFetch = this._options.fetch ?? globalThis.fetch;
+    const response = await networkFetch(request.url.href, forwardInit(request, init));
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // fetch has decoded the body, so these would describe other bytes
+    const replayHeaders = new Headers(response.headers);
+    replayHeaders.delete('content-encoding');
+    replayHeaders.delete('content-length');
+    const headers = headersToObject(replayHeaders);
+    const isText = TEXT_CONTENT_TYPE.test(headers['content-type'] ?? '');
+
+    this.exchanges.push({
+      request: { method: request.method, url: request.url.href, ...recordedBody(request.bytes) },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: isText ? new TextDecoder().decode(bytes) : Buffer.from(bytes).toString('base64'),
+        encoding: isText ? 'utf8' : 'base64'
+      }
+    });
+    // A failed save rejects only its own caller; the next one writes everything again
+    const write = this._writes.catch(() => {}).then(() => this.save());
+    this._writes = write;
+    await write;
+
+    return new globalThis.Response(hasNullBody(response.status, request.method) ? null : bytes, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: replayHeaders
+    });
+  }
+
+  private async save(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await import('node:path');
+    await fs.mkdir(path.dirname(this._options.fixture), { recursive: true });
+    await fs.writeFile(this._options.fixture, JSON.stringify({ exchanges: this.exchanges }, null, 2));
+  }
+}
+
+export function createRecorder(options: RecorderOptions): Recorder {
+  return new Recorder(options);
+}
@@ -0,0 +1,125 @@
+/**
+ * Pagination - iterate items across pages (got-style paginate)
+ */
+
+import type { Request } from './request.js';
+import type { Response } from './response.js';
+
+export interface PaginateOptions<T = any> {
+  transform?: (response: Response) => T[] | Promise<T[]>;
+  // A Request must be returned synchronously: awaiting one would send it
+  next?: (response: Response, items: T[]) =>
+    | Request | string | false | null | undefined
+    | Promise<string | false | null | undefined>;
+  countLimit?: number;    // Stop after this many items
+  requestLimit?: number;  // Stop after this many page requests
+  backoff?: number | ((page: number) => number); // Delay in ms before each page after the first
+}
+
+export interface Link {
+  url: string;
+  rel: string[];
+  params: Record<string, string>;
+}
+
+/**
+ * Parses an RFC 8288 Link header into its link-values.
+ */
+export function parseLinkHeader(header: string | undefined): Link[] {
+  if (!header) return [];
+  const links: Link[] = [];
+  const linkPattern = /<([^>]*)>((?:\s*;\s*[^;,="\s]+\s*(?:=\s*(?:"[^"]*"|[^;,]*))?)*)/g;
+  const paramPattern = /;\s*([^;,="\s]+)\s*(?:=\s*("[^"]*"|[^;,]*))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = linkPattern.exec(header)) !== null) {
+    const params: Record<string, string> = {};
+    let param: RegExpExecArray | null;
+    while ((param = paramPattern.exec(match[2])) !== null) {
+      params[param[1].toLowerCase()] = (param[2] ?? '').trim().replace(/^"|"$/g, '');
+    }
+    links.push({
+      url: match[1],
+      rel: (params['rel'] || '').toLowerCase().split(/\s+/).filter(Boolean),
+      params
+    });
+  }
+
+  return links;
+}
+
+function defaultTransform(response: Response): any[] {
+  if (Array.isArray(response.body)) return response.body;
+  throw new TypeError('paginate: response body is not an array, pass a `transform` function');
+}
+
+function defaultNext(response: Response): string | false {
+  const next = parseLinkHeader(response.get('link')).find(link => link.rel.includes('next'));
+  return next ? next.url : false;
+}
+
+function resolveUrl(target: string, base: string): string {
+  try {
+    return new URL(target, base).toString();
+  } catch {
+    return target;
+  }
+}
+
+export class Paginator<T> implements AsyncIterable<T> {
+  private _first: Request;
+  private _createRequest: (url: string) => Request;
+  private _options: PaginateOptions<T>;
+
+  constructor(first: Request, createRequest: (url: string) => Request, options: PaginateOptions<T> = {}) {
+    this._first = first;
+    this._createRequest = createRequest;
+    this._options = options;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const {
+      transform = defaultTransform,
+      next = defaultNext,
+      countLimit = Infinity,
+      requestLimit = 10000,
+      backoff = 0
+    } = this._options;
+
+    let request = this._first;
+    let count = 0;
+
+    for (let page = 1; page <= requestLimit; page++) {
+      if (page > 1) {
+        const delay = typeof backoff === 'function' ? backoff(page) : backoff;
+        if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      const response: Response = await request;
+      const items = await transform(response);
+
+      for (const item of items) {
+        if (count >= countLimit) return;
+        count++;
+        yield item;
+      }
+      if (count >= countLimit) return;
+
+      let target = next(response, items);
+      if (target instanceof Promise) target = await target;
+      if (!target) return;
+      // Relative Link targets resolve against the page that returned them
+      request = typeof target === 'string'
+        ? this._createRequest(resolveUrl(target, request.url))
+        : target;
+    }
+  }
+
+  async all(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
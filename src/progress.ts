@@ -0,0 +1,111 @@
+/**
+ * Upload/download progress tracking
+ */
+
+import type { ProgressEvent } from './types.js';
+
+export type ProgressDirection = ProgressEvent['direction'];
+
+function toProgressEvent(direction: ProgressDirection, loaded: number, total?: number): ProgressEvent {
+  const event: ProgressEvent = { direction, loaded };
+  if (total !== undefined && total > 0) {
+    event.total = total;
+    event.percent = Math.min((loaded / total) * 100, 100);
+  }
+  return event;
+}
+
+/**
+ * Passes chunks through unchanged while reporting the running byte count.
+ */
+export function countStream(
+  source: ReadableStream<Uint8Array>,
+  direction: ProgressDirection,
+  total: number | undefined,
+  onProgress: (event: ProgressEvent) => void
+): ReadableStream<Uint8Array> {
+  let loaded = 0;
+  return source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      controller.enqueue(chunk);
+      onProgress(toProgressEvent(direction, loaded, total));
+    }
+  }));
+}
+
+export function contentLength(headers: Headers): number | undefined {
+  const value = Number(headers.get('content-length'));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export type FetchBody = NonNullable<RequestInit['body']>;
+
+// Line breaks in form data are sent as CRLF, as fetch does
+function normalizeLineBreaks(value: string): string {
+  return value.replace(/\r(?!\n)|(?<!\r)\n/g, '\r\n');
+}
+
+function escapeFormName(value: string): string {
+  return value.replace(/\n/g, '%0A').replace(/\r/g, '%0D').replace(/"/g, '%22');
+}
+
+/**
+ * Encodes form data as multipart the way fetch does, but as a Blob built
+ * from the original parts, so file-backed Blobs are read only while sending.
+ */
+function multipartBlob(form: FormData): { blob: Blob; contentType: string } {
+  const random = Array.from(crypto.getRandomValues(new Uint8Array(12)), byte => byte.toString(16).padStart(2, '0'));
+  const boundary = `----superagent-lite-${random.join('')}`;
+  const parts: Array<string | Blob> = [];
+  for (const [name, value] of form) {
+    const disposition = `form-data; name="${escapeFormName(normalizeLineBreaks(name))}"`;
+    if (typeof value === 'string') {
+      parts.push(`--${boundary}\r\nContent-Disposition: ${disposition}\r\n\r\n${normalizeLineBreaks(value)}\r\n`);
+    } else {
+      parts.push(
+        `--${boundary}\r\nContent-Disposition: ${disposition}; filename="${escapeFormName(value.name)}"\r\n` +
+        `Content-Type: ${value.type || 'application/octet-stream'}\r\n\r\n`,
+        value,
+        '\r\n'
+      );
+    }
+  }
+  parts.push(`--${boundary}--\r\n`);
+  return { blob: new Blob(parts), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/**
+ * Turns a request body into a counted stream. Streams are counted as they
+ * flow (total unknown). Other bodies keep their size, which the caller sends
+ * as Content-Length, and any generated content-type (the multipart
+ * boundary). Blobs and form data are not read ahead of sending.
+ */
+export async function uploadStream(
+  body: FetchBody,
+  onProgress: (event: ProgressEvent) => void
+): Promise<{ stream: ReadableStream<Uint8Array>; contentType: string | null; size: number | undefined }> {
+  if (body instanceof ReadableStream) {
+    return { stream: countStream(body, 'upload', undefined, onProgress), contentType: null, size: undefined };
+  }
+
+  let blob: Blob;
+  let contentType: string | null;
+  if (body instanceof FormData) {
+    ({ blob, contentType } = multipartBlob(body));
+  } else if (body instanceof Blob) {
+    blob = body;
+    contentType = body.type || null;
+  } else {
+    // Strings, buffers and URLSearchParams are in memory already
+    const encoded = new globalThis.Response(body);
+    contentType = encoded.headers.get('content-type');
+    blob = await encoded.blob();
+  }
+  onProgress(toProgressEvent('upload', 0, blob.size));
+  return {
+    stream: countStream(blob.stream(), 'upload', blob.size, onProgress),
+    contentType,
+    size: blob.size
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Query strings - ordered multi-valued pairs, arrays and nested objects
+ */
+
+import type { ArrayFormat } from './types.js';
+
+export type QueryPair = [key: string, value: string];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function serializeValue(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function appendValue(pairs: QueryPair[], key: string, value: unknown, arrayFormat: ArrayFormat): void {
+  if (value === undefined || value === null) return;
+
+  if (Array.isArray(value)) {
+    const items = value.filter(item => item !== undefined && item !== null);
+    // Objects inside arrays need an index to stay apart, whatever the format
+    if (arrayFormat === 'comma' && !items.some(item => isPlainObject(item) || Array.isArray(item))) {
+      if (items.length) pairs.push([key, items.map(serializeValue).join(',')]);
+      return;
+    }
+    items.forEach((item, index) => {
+      const nested = isPlainObject(item) || Array.isArray(item);
+      const itemKey = arrayFormat === 'indices' || nested
+        ? `${key}[${index}]`
+        : arrayFormat === 'brackets' ? `${key}[]` : key;
+      appendValue(pairs, itemKey, item, arrayFormat);
+    });
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const [name, nested] of Object.entries(value)) {
+      appendValue(pairs, `${key}[${name}]`, nested, arrayFormat);
+    }
+    return;
+  }
+
+  pairs.push([key, serializeValue(value)]);
+}
+
+/**
+ * Flattens params into ordered pairs. Nested objects use bracket notation
+ * (`filter[status]=open`), dates become ISO strings, and null or undefined
+ * values are left out.
+ */
+export function toQueryPairs(params: Record<string, any>, arrayFormat: ArrayFormat = 'repeat'): QueryPair[] {
+  const pairs: QueryPair[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    appendValue(pairs, key, value, arrayFormat);
+  }
+  return pairs;
+}
+
+export function parseQuery(query: string): QueryPair[] {
+  return [...new URLSearchParams(query)];
+}
+
+export function stringifyQuery(pairs: QueryPair[]): string {
+  return new URLSearchParams(pairs).toString();
+}
+
+/** The top-level name of a key: `filter` for `filter[status]` or `ids[]` */
+export function rootKey(key: string): string {
+  const bracket = key.indexOf('[');
+  return bracket > 0 ? key.slice(0, bracket) : key;
+}
@@ -0,0 +1,234 @@
+/**
+ * Request queue - instance-wide concurrency and rate limiting
+ */
+
+import type { RateLimitOptions, RequestQueueLike } from './types.js';
+import { parseRetryAfter } from './retry.js';
+
+export interface RequestQueueOptions {
+  concurrency?: number;
+  rateLimit?: RateLimitOptions;
+}
+
+interface Waiter {
+  origin: string;
+  priority: number;
+  seq: number;
+  resolve: (release: () => void) => void;
+  cleanup: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Server-requested slowdown for one origin, from RateLimit-* or Retry-After
+interface Gate {
+  nextAt: number;   // No request starts before this time
+  spacing: number;  // Ms between starts until `until`
+  until: number;
+}
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Reads remaining quota and reset delay (ms) from the IETF RateLimit headers:
+ * either `RateLimit-Remaining` / `RateLimit-Reset`, or a single `RateLimit`
+ * field (`remaining=0, reset=30` or `"policy";r=0;t=30`).
+ */
+export function parseRateLimit(headers: Headers): { remaining: number; reset: number } | undefined {
+  let remaining = headers.get('ratelimit-remaining') ?? undefined;
+  let reset = headers.get('ratelimit-reset') ?? undefined;
+
+  const combined = headers.get('ratelimit');
+  if (combined) {
+    remaining ??= /(?:^|[;,\s])(?:remaining|r)=(\d+)/.exec(combined)?.[1];
+    reset ??= /(?:^|[;,\s])(?:reset|t)=(\d+)/.exec(combined)?.[1];
+  }
+
+  if (remaining === undefined || reset === undefined || !/^\d+$/.test(remaining) || !/^\d+$/.test(reset)) {
+    return undefined;
+  }
+  return { remaining: Number(remaining), reset: Number(reset) * 1000 };
+}
+
+export class RequestQueue implements RequestQueueLike {
+  private _concurrency: number;
+  private _rateLimit: RateLimitOptions | undefined;
+  private _active = 0;
+  private _waiting: Waiter[] = [];
+  private _seq = 0;
+  private _buckets = new Map<string, Bucket>();
+  private _gates = new Map<string, Gate>();
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+  private _timerAt = Infinity;
+
+  constructor(options: RequestQueueOptions = {}) {
+    this._concurrency = options.concurrency ?? Infinity;
+    this._rateLimit = options.rateLimit;
+  }
+
+  /** Requests waiting for a slot */
+  get pending(): number {
+    return this._waiting.length;
+  }
+
+  /** Requests in flight */
+  get active(): number {
+    return this._active;
+  }
+
+  acquire(url: string, options: { priority: number; signal: AbortSignal }): Promise<() => void> {
+    const { signal } = options;
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this._waiting.indexOf(waiter);
+        if (index !== -1) this._waiting.splice(index, 1);
+        reject(signal.reason);
+        this.drain();
+      };
+      const waiter: Waiter = {
+        origin: originOf(url),
+        priority: options.priority,
+        seq: this._seq++,
+        resolve,
+        cleanup: () => signal.removeEventListener('abort', onAbort)
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      // Highest priority first, first come first served within a priority
+      const index = this._waiting.findIndex(other => other.priority < waiter.priority);
+      this._waiting.splice(index === -1 ? this._waiting.length : index, 0, waiter);
+      this.drain();
+    });
+  }
+
+  observe(url: string, status: number, headers: Headers): void {
+    const origin = originOf(url);
+    const now = Date.now();
+    let delay: number | undefined;
+    let spacing = 0;
+    let until = 0;
+
+    if (status === 429 || status === 503) {
+      delay = parseRetryAfter(headers.get('retry-after') ?? undefined, now);
+    }
+
+    const rateLimit = parseRateLimit(headers);
+    if (rateLimit) {
+      until = now + rateLimit.reset;
+      if (rateLimit.remaining === 0) {
+        delay = Math.max(delay ?? 0, rateLimit.reset);
+      } else {
+        // Spread what is left of the quota over the rest of the window
+        spacing = rateLimit.reset / rateLimit.remaining;
+      }
+    }
+
+    if (delay === undefined && spacing === 0) return;
+    const gate = this._gates.get(origin);
+    this._gates.set(origin, {
+      nextAt: Math.max(gate?.nextAt ?? 0, now + (delay ?? 0)),
+      spacing,
+      until: Math.max(until, now + (delay ?? 0))
+    });
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    let wakeAt = Infinity;
+
+    for (let i = 0; i < this._waiting.length && this._active < this._concurrency; ) {
+      const waiter = this._waiting[i];
+      const ready = Math.max(this.gateReadyAt(waiter.origin, now), this.bucketReadyAt(waiter.origin, now));
+      if (ready > now) {
+        // Blocked on its origin; others may still go
+        wakeAt = Math.min(wakeAt, ready);
+        i++;
+        continue;
+      }
+
+      this._waiting.splice(i, 1);
+      this.take(waiter.origin, now);
+      this.start(waiter);
+    }
+
+    this.schedule(wakeAt);
+  }
+
+  private start(waiter: Waiter): void {
+    waiter.cleanup();
+    this._active++;
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      this._active--;
+      this.drain();
+    });
+  }
+
+  private gateReadyAt(origin: string, now: number): number {
+    const gate = this._gates.get(origin);
+    if (!gate) return now;
+    if (now >= gate.until && now >= gate.nextAt) {
+      this._gates.delete(origin);
+      return now;
+    }
+    return gate.nextAt;
+  }
+
+  private bucket(origin: string, now: number): Bucket | undefined {
+    const rateLimit = this._rateLimit;
+    if (!rateLimit) return undefined;
+
+    const key = rateLimit.perOrigin ? origin : '';
+    let bucket = this._buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: rateLimit.limit, updatedAt: now };
+      this._buckets.set(key, bucket);
+    }
+    const refill = ((now - bucket.updatedAt) * rateLimit.limit) / rateLimit.interval;
+    bucket.tokens = Math.min(rateLimit.limit, bucket.tokens + refill);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private bucketReadyAt(origin: string, now: number): number {
+    const bucket = this.bucket(origin, now);
+    if (!bucket || bucket.tokens >= 1) return now;
+    const { limit, interval } = this._rateLimit as RateLimitOptions;
+    return now + Math.ceil(((1 - bucket.tokens) * interval) / limit);
+  }
+
+  private take(origin: string, now: number): void {
+    const bucket = this.bucket(origin, now);
+    if (bucket) bucket.tokens -= 1;
+
+    const gate = this._gates.get(origin);
+    if (gate && gate.spacing > 0 && now < gate.until) gate.nextAt = now + gate.spacing;
+  }
+
+  private schedule(at: number): void {
+    if (at === this._timerAt) return;
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    this._timerAt = at;
+    if (at === Infinity) return;
+
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this._timerAt = Infinity;
+      this.drain();
+    }, Math.max(0, at - Date.now()));
+  }
+}
@@ -6,27 +6,135 @@ import type {
   RequestOptions,
   TimeoutOptions,
   RetryOptions,
+  RetryContext,
   Hooks,
   FetchCredentials,
   FetchRedirect,
-  FileAttachment
+  FileAttachment,
+  CookieJarLike,
+  CacheStatus,
+  CircuitBreakerLike,
+  RequestQueueLike,
+  RequestDeduperLike,
+  DispatcherLike,
+  Plugin,
+  AuthProviderLike,
+  AuthRequest,
+  ContentEncoding,
+  CompressionOptions,
+  TimeoutPhase,
+  Timings,
+  Attributes,
+  Observer,
+  TracingOptions,
+  Validator,
+  Parser,
+  Serializer,
+  ResponseType,
+  ArrayFormat,
+  PathParams,
+  PathParamValue,
+  WritableLike,
+  ProgressEvent,
+  EventStreamOptions
 } from './types.js';
 import { Response } from './response.js';
-import { HTTPError, TimeoutError } from './errors.js';
+import {
+  RequestError,
+  HTTPError,
+  NetworkError,
+  AbortError,
+  TimeoutError,
+  ParseError,
+  CircuitOpenError,
+  ResponseValidationError,
+  RequestValidationError,
+  ResponseTooLargeError,
+  redactHeaders
+} from './errors.js';
+import { Emitter } from './emitter.js';
+import {
+  guardStream,
+  idleStream,
+  iterateStream,
+  iterateLines,
+  pipeToWritable,
+  emptyStream,
+  replaceBody,
+  toReadableStream,
+  isAsyncIterable
+} from './stream.js';
+import { countStream, contentLength, uploadStream, type FetchBody } from './progress.js';
+import { openFile, basename } from './file.js';
+import { getSetCookie } from './cookies.js';
+import { HttpCache } from './cache.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { RequestDeduper } from './dedupe.js';
+import {
+  RequestTrace,
+  requestAttributes,
+  responseAttributes,
+  errorAttributes,
+  notify,
+  type AttemptSpan
+} from './telemetry.js';
+import { Paginator, type PaginateOptions } from './paginate.js';
+import { EventStream } from './sse.js';
+import { isRetryable, computeRetryDelay, errorCode } from './retry.js';
+import { runValidator } from './validate.js';
+import { DEFAULT_PARSERS, DEFAULT_SERIALIZERS, findCodec } from './codecs.js';
+import { expandTemplate, resolveUrl } from './url.js';
+import { base64 } from './auth.js';
+import { toQueryPairs, parseQuery, stringifyQuery, rootKey, type QueryPair } from './querystring.js';
+import { compressStream, compressBytes, decodeStream, meterStream } from './compression.js';
 
-// Default retry configuration
-const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
-const DEFAULT_RETRY_STATUS_CODES = [408, 413, 429, 500, 502, 503, 504];
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 20;
 
-function defaultRetryDelay(attemptCount: number): number {
-  return Math.min(1000 * 2 ** (attemptCount - 1), 30000);
+// Bodies passed to fetch as-is rather than serialized as JSON/urlencoded
+function isRawBody(data: unknown): boolean {
+  return data instanceof ReadableStream ||
+    data instanceof Blob ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    data instanceof URLSearchParams ||
+    data instanceof FormData ||
+    isAsyncIterable(data);
 }
 
-export class Request implements PromiseLike<Response> {
+// Encodes a body the way fetch would, keeping the Content-Type it implies
+async function encodeBody(body: NonNullable<RequestInit['body']>, headers: Record<string, string>): Promise<Uint8Array> {
+  const encoded = new globalThis.Response(body);
+  const contentType = encoded.headers.get('content-type');
+  // FormData needs the boundary of this encoding
+  if (contentType && (body instanceof FormData || !headers['content-type'])) headers['content-type'] = contentType;
+  return new Uint8Array(await encoded.arrayBuffer());
+}
+
+function isStreamBody(data: unknown): boolean {
+  return data instanceof ReadableStream || isAsyncIterable(data);
+}
+
+export interface RequestEvents {
+  request: (request: Request) => void;
+  response: (response: Response) => void;
+  progress: (event: ProgressEvent) => void;
+  abort: () => void;
+}
+
+/**
+ * `TBody` is the type of `response.body`; `.validate()` and the typed
+ * instance methods (`api.get<User>(url)`) set it. `TPath` is the URL
+ * template, from which `.params()` takes its parameter names.
+ */
+export class Request<TBody = any, TPath extends string = string> extends Emitter<RequestEvents> implements PromiseLike<Response<TBody>> {
+  private _options: RequestOptions;
   private _url: string;
   private _method: string;
   private _headers: Record<string, string> = {};
-  private _query: Record<string, string> = {};
+  private _params: Record<string, PathParamValue> | null = null;
+  private _query: QueryPair[] = [];
+  private _sortQuery: boolean | ((a: string, b: string) => number) = false;
   private _body: any = undefined;
   private _timeout: TimeoutOptions = {};
   private _retry: RetryOptions = { limit: 0 };
@@ -39,19 +147,65 @@ export class Request implements PromiseLike<Response> {
   private _throwHttpErrors = true;
   private _parseJson: (text: string) => any = JSON.parse;
   private _stringifyJson: (data: any) => string = JSON.stringify;
+  private _parsers: Record<string, Parser> = DEFAULT_PARSERS;
+  private _serializers: Record<string, Serializer> = DEFAULT_SERIALIZERS;
+  private _parser: Parser | null = null;
+  private _serializer: Serializer | null = null;
+  private _responseType: ResponseType | null = null;
   private _abortController: AbortController | null = null;
+  private _aborted = false;
+  private _cancelWait: (() => void) | null = null;
   private _externalSignal: AbortSignal | null = null;
+  private _deadline: AbortController | null = null;
+  private _deadlineTimer: ReturnType<typeof setTimeout> | undefined;
   private _credentials: FetchCredentials = 'same-origin';
   private _redirect: FetchRedirect = 'follow';
+  private _cookieJar: CookieJarLike | null = null;
+  private _cache: HttpCache | null = null;
+  private _circuitBreaker: CircuitBreakerLike | null = null;
+  private _queue: RequestQueueLike | null = null;
+  private _dispatcher: DispatcherLike | null = null;
+  private _dedupe: RequestDeduperLike | null = null;
+  private _auth: AuthProviderLike | null = null;
+  private _compression: CompressionOptions | null = null;
+  private _decompress: boolean | undefined;
+  private _maxResponseSize: number | undefined;
+  private _priority = 0;
   private _customFetch: typeof fetch = globalThis.fetch;
+  private _bodySchema: Validator<unknown> | null = null;
+  private _responseSchema: Validator<unknown> | null = null;
+  private _promise: Promise<Response<TBody>> | null = null;
+  private _streamMode = false;
+  private _mutable = false;
+  private _attempt = 0;
+  private _attemptStart = 0;
+  private _startedAt = 0;
+  private _observer: Observer | undefined;
+  private _tracing: TracingOptions | null = null;
+  private _trace: RequestTrace | null = null;
   private _attachments: FileAttachment[] = [];
   private _formFields: Record<string, string> = {};
+  private _plugins = new Set<unknown>();
+  private _methods: Record<string, unknown> = {};
 
   constructor(method: string, url: string, options: RequestOptions = {}) {
+    super();
+    this._options = {};
     this._method = method.toUpperCase();
     this._url = url;
+    this.configure(options);
+  }
 
-    if (options.headers) this._headers = { ...options.headers };
+  /**
+   * Applies request options; plugins use this to add theirs later. Hooks are
+   * appended and headers merged, everything else replaces.
+   */
+  private configure(options: RequestOptions): void {
+    this._options = { ...this._options, ...options };
+
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      this._headers[name.toLowerCase()] = value;
+    }
     if (options.timeout) {
       this._timeout = typeof options.timeout === 'number'
         ? { request: options.timeout }
@@ -66,9 +220,39 @@ export class Request implements PromiseLike<Response> {
     if (options.throwHttpErrors !== undefined) this._throwHttpErrors = options.throwHttpErrors;
     if (options.parseJson) this._parseJson = options.parseJson;
     if (options.stringifyJson) this._stringifyJson = options.stringifyJson;
+    if (options.parsers) this._parsers = options.parsers;
+    if (options.serializers) this._serializers = options.serializers;
     if (options.signal) this._externalSignal = options.signal;
     if (options.credentials) this._credentials = options.credentials;
     if (options.redirect) this._redirect = options.redirect;
+    if (options.cookieJar) this._cookieJar = options.cookieJar;
+    if (options.cache) this._cache = new HttpCache(options.cache === true ? {} : options.cache);
+    if (options.circuitBreaker) {
+      const breaker = options.circuitBreaker;
+      this._circuitBreaker = breaker !== true && 'acquire' in breaker
+        ? breaker
+        : new CircuitBreaker(breaker === true ? {} : breaker);
+    }
+    if (options.queue) this._queue = options.queue;
+    if (options.dispatcher) this._dispatcher = options.dispatcher;
+    if (options.dedupe) {
+      const dedupe = options.dedupe;
+      this._dedupe = dedupe !== true && 'fetch' in dedupe
+        ? dedupe
+        : new RequestDeduper(dedupe === true ? {} : dedupe);
+    }
+    if (options.auth) this._auth = options.auth;
+    if (options.compressRequests !== undefined) {
+      const compression = options.compressRequests;
+      this._compression = compression === false
+        ? null
+        : compression === true ? {} : typeof compression === 'string' ? { encoding: compression } : compression;
+    }
+    if (options.decompress !== undefined) this._decompress = options.decompress;
+    if (options.maxResponseSize !== undefined) this._maxResponseSize = options.maxResponseSize;
+    if (options.priority !== undefined) this._priority = options.priority;
+    if (options.observer) this._observer = options.observer;
+    if (options.tracing) this._tracing = options.tracing === true ? {} : options.tracing;
     if (options.fetch) this._customFetch = options.fetch;
   }
 
@@ -79,11 +263,33 @@ export class Request implements PromiseLike<Response> {
     if (hooks.beforeError) this._hooks.beforeError.push(...hooks.beforeError);
   }
 
+  /** The URL with path params filled in and resolved against `baseURL` */
+  get url(): string {
+    const url = this._params ? expandTemplate(this._url, this._params) : this._url;
+    return resolveUrl(url, this._options.baseURL);
+  }
+
+  /**
+   * Replaces the URL, as superagent plugins such as superagent-prefix do with
+   * `request.url = prefix + request.url`. Params already filled in by the
+   * getter are not expanded again.
+   */
+  set url(value: string) {
+    this.assertMutable('url');
+    this._url = value;
+    this._params = null;
+  }
+
+  get method(): string {
+    return this._method;
+  }
+
   // ==========================================================================
   // Chaining Methods (superagent compatible)
   // ==========================================================================
 
   set(field: string | Record<string, string>, value?: string): this {
+    this.assertMutable('set');
     if (typeof field === 'object') {
       for (const key of Object.keys(field)) {
         this._headers[key.toLowerCase()] = field[key];
@@ -94,25 +300,57 @@ export class Request implements PromiseLike<Response> {
     return this;
   }
 
-  query(params: Record<string, any> | string): this {
-    if (typeof params === 'string') {
-      const searchParams = new URLSearchParams(params);
-      searchParams.forEach((value, key) => {
-        this._query[key] = value;
-      });
-    } else {
-      for (const key of Object.keys(params)) {
-        const value = params[key];
-        if (value !== undefined && value !== null) {
-          this._query[key] = String(value);
-        }
-      }
-    }
+  /**
+   * Fills in the `{name}` and `/:name` placeholders of the URL template.
+   * Values are percent-encoded; a placeholder left without a value fails
+   * the request. A URL without params() is sent as written.
+   */
+  params(values: PathParams<TPath>): this {
+    this.assertMutable('params');
+    this._params = { ...this._params, ...(values as Record<string, PathParamValue>) };
     return this;
   }
 
-  send(data: any): this {
-    if (this._body && typeof this._body === 'object' && typeof data === 'object') {
+  /**
+   * Adds query parameters. Keys given here replace earlier values of the same
+   * name; repeated keys within one call are all kept.
+   */
+  query(params: Record<string, any> | string, options?: { arrayFormat?: ArrayFormat }): this {
+    this.assertMutable('query');
+    const pairs = typeof params === 'string'
+      ? parseQuery(params)
+      : this.toQueryPairs(params, options?.arrayFormat);
+    const replaced = new Set(pairs.map(([key]) => rootKey(key)));
+    this._query = [...this._query.filter(([key]) => !replaced.has(rootKey(key))), ...pairs];
+    return this;
+  }
+
+  /**
+   * Sorts query parameters by name when the URL is built, optionally with a
+   * custom key comparator (superagent compatible).
+   */
+  sortQuery(sort: boolean | ((a: string, b: string) => number) = true): this {
+    this.assertMutable('sortQuery');
+    this._sortQuery = sort;
+    return this;
+  }
+
+  /**
+   * Sets the request body. Objects are serialized as JSON (or urlencoded with
+   * `.type('form')`); streams, Blobs, binary data, URLSearchParams and
+   * FormData are sent as-is. Pass a function returning the body to make a
+   * streamed body replayable across retries. With a schema, the body is
+   * validated (and transformed) before every attempt.
+   */
+  send(data: any, schema?: Validator<unknown>): this {
+    this.assertMutable('send');
+    if (schema) this._bodySchema = schema;
+    if (typeof data === 'function' || isRawBody(data)) {
+      this._body = data;
+      return this;
+    }
+
+    if (this._body && typeof this._body === 'object' && !isRawBody(this._body) && typeof data === 'object') {
       this._body = { ...this._body, ...data };
     } else {
       this._body = data;
@@ -126,6 +364,7 @@ export class Request implements PromiseLike<Response> {
   }
 
   type(contentType: string): this {
+    this.assertMutable('type');
     const types: Record<string, string> = {
       json: 'application/json',
       form: 'application/x-www-form-urlencoded',
@@ -138,6 +377,7 @@ export class Request implements PromiseLike<Response> {
   }
 
   accept(acceptType: string): this {
+    this.assertMutable('accept');
     const types: Record<string, string> = {
       json: 'application/json',
       html: 'text/html',
@@ -158,17 +398,46 @@ export class Request implements PromiseLike<Response> {
     return this;
   }
 
-  auth(user: string, pass?: string, options?: { type?: 'basic' | 'bearer' }): this {
+  /**
+   * Queue priority within an instance's concurrency and rate limits; higher
+   * runs first.
+   */
+  priority(value: number): this {
+    this._priority = value;
+    return this;
+  }
+
+  /**
+   * Sets a static Basic or Bearer Authorization header, or hands this
+   * request to an auth provider such as OAuth2Auth or DigestAuth.
+   */
+  auth(provider: AuthProviderLike): this;
+  auth(user: string, pass?: string, options?: { type?: 'basic' | 'bearer' }): this;
+  auth(user: string | AuthProviderLike, pass?: string, options?: { type?: 'basic' | 'bearer' }): this {
+    this.assertMutable('auth');
+    if (typeof user !== 'string') {
+      this._auth = user;
+      return this;
+    }
     const type = options?.type || (pass === undefined ? 'bearer' : 'basic');
     if (type === 'bearer') {
       this._headers['authorization'] = `Bearer ${user}`;
     } else {
-      const credentials = Buffer.from(`${user}:${pass || ''}`).toString('base64');
-      this._headers['authorization'] = `Basic ${credentials}`;
+      this._headers['authorization'] = `Basic ${base64(`${user}:${pass || ''}`)}`;
     }
     return this;
   }
 
+  /**
+   * Compresses the request body, however small; `false` turns off the
+   * instance's `compressRequests`.
+   */
+  compress(encoding: ContentEncoding | false = 'gzip', options: Omit<CompressionOptions, 'encoding'> = {}): this {
+    this.assertMutable('compress');
+    this._compression = encoding === false ? null : { threshold: 0, ...options, encoding };
+    return this;
+  }
+
   withCredentials(enabled = true): this {
     this._credentials = enabled ? 'include' : 'same-origin';
     return this;
@@ -180,11 +449,13 @@ export class Request implements PromiseLike<Response> {
   }
 
   attach(name: string, file: Blob | Buffer | string, filename?: string): this {
+    this.assertMutable('attach');
     this._attachments.push({ name, file, filename });
     return this;
   }
 
   field(name: string | Record<string, string>, value?: string): this {
+    this.assertMutable('field');
     if (typeof name === 'object') {
       Object.assign(this._formFields, name);
     } else if (value !== undefined) {
@@ -193,21 +464,135 @@ export class Request implements PromiseLike<Response> {
     return this;
   }
 
+  /**
+   * Headers, URL, query and body are fixed once the request has started,
+   * except from beforeRequest hooks.
+   */
+  private assertMutable(method: string): void {
+    if (this._promise && !this._mutable) {
+      throw new Error(`Cannot call .${method}() after the request has started; use .clone() to send a modified copy`);
+    }
+  }
+
+  /**
+   * Validates the parsed response body with a Standard Schema (Zod, Valibot,
+   * ArkType...) or a function that returns the data or throws. Failures
+   * raise ResponseValidationError; streamed responses are not validated.
+   */
+  validate<T>(schema: Validator<T>): Request<T, TPath> {
+    this.assertMutable('validate');
+    this._responseSchema = schema;
+    return this as unknown as Request<T, TPath>;
+  }
+
+  /**
+   * Parses this response with `parser` whatever its Content-Type, e.g. an
+   * XML or MessagePack decoder. Binary parsers read `context.bytes`.
+   */
+  parse(parser: Parser): this {
+    this.assertMutable('parse');
+    this._parser = parser;
+    return this;
+  }
+
+  /**
+   * Serializes an object passed to send() with `serializer` instead of the
+   * one registered for the Content-Type.
+   */
+  serialize(serializer: Serializer): this {
+    this.assertMutable('serialize');
+    this._serializer = serializer;
+    return this;
+  }
+
+  /**
+   * Reads the body as the given type regardless of Content-Type:
+   * `arraybuffer` and `blob` skip parsing, `json` forces it.
+   */
+  responseType(type: ResponseType): this {
+    this.assertMutable('responseType');
+    this._responseType = type;
+    return this;
+  }
+
   // ==========================================================================
   // Hook Methods (inspired by got/ky)
   // ==========================================================================
 
-  hook(name: keyof Hooks, fn: any): this {
-    (this._hooks[name] as any[]).push(fn);
+  hook<K extends keyof Hooks>(name: K, fn: NonNullable<Hooks[K]>[number]): this {
+    (this._hooks[name] as Array<typeof fn>).push(fn);
     return this;
   }
 
+  // ==========================================================================
+  // Plugins (superagent compatible)
+  // ==========================================================================
+
+  /**
+   * Installs a plugin: a superagent-style function called with this request,
+   * or an object adding options, hooks and helper methods. Using the same
+   * plugin (or one with the same name) again does nothing.
+   */
+  use<M extends object = {}>(plugin: Plugin<M>): this & M {
+    this.assertMutable('use');
+    const id = typeof plugin === 'function' ? plugin : plugin.name ?? plugin;
+    if (this._plugins.has(id)) return this as this & M;
+    this._plugins.add(id);
+
+    if (typeof plugin === 'function') {
+      plugin(this);
+      return this as this & M;
+    }
+    if (plugin.options) this.configure(plugin.options);
+    if (plugin.hooks) this.mergeHooks(plugin.hooks);
+    if (plugin.methods) {
+      for (const [name, method] of Object.entries(plugin.methods)) {
+        if (name in this) throw new Error(`Plugin method .${name}() would replace an existing Request member`);
+        this._methods[name] = method;
+      }
+      Object.assign(this, plugin.methods);
+    }
+    plugin.install?.(this);
+    return this as this & M;
+  }
+
   // ==========================================================================
   // Execution Control
   // ==========================================================================
 
   abort(): this {
+    this._aborted = true;
     this._abortController?.abort();
+    this._cancelWait?.();
+    this.emit('abort');
+    return this;
+  }
+
+  /**
+   * Sends a copy of this request. Unlike retryNow() the copy can be changed
+   * first; a streamed body can only be copied if it was given as a factory.
+   */
+  clone(): Request<TBody, TPath> {
+    const request = this.forUrl(this._url);
+    request._params = this._params && { ...this._params };
+    request._query = [...this._query];
+    request._body = this._body && typeof this._body === 'object' && !isRawBody(this._body)
+      ? { ...this._body }
+      : this._body;
+    request._attachments = [...this._attachments];
+    request._formFields = { ...this._formFields };
+    request._bodySchema = this._bodySchema;
+    return request;
+  }
+
+  /**
+   * Sends the request again, even if it already ran. Awaiting the request
+   * afterwards yields the new response.
+   */
+  retryNow(): this {
+    this._aborted = false;
+    this._promise = null;
+    this.run(this._streamMode);
     return this;
   }
 
@@ -215,128 +600,419 @@ export class Request implements PromiseLike<Response> {
   // Request Execution
   // ==========================================================================
 
-  private async execute(): Promise<Response> {
-    const retryLimit = this._retry.limit ?? 0;
-    const retryMethods = this._retry.methods ?? DEFAULT_RETRY_METHODS;
-    const retryStatusCodes = this._retry.statusCodes ?? DEFAULT_RETRY_STATUS_CODES;
-    const retryDelay = this._retry.delay ?? defaultRetryDelay;
+  /**
+   * Starts the request on first use and shares its promise afterwards, so
+   * awaiting or chaining a request more than once sends it once.
+   */
+  private run(stream = false): Promise<Response<TBody>> {
+    if (!this._promise) {
+      this._streamMode = stream;
+      this._promise = this.execute(stream);
+      // Rejections surface through each consumer's own chain
+      this._promise.catch(() => {});
+    } else if (this._streamMode !== stream) {
+      return Promise.reject(new Error(
+        `Request already started as a ${this._streamMode ? 'streamed' : 'buffered'} response; use .clone() to read it differently`
+      ));
+    }
+    return this._promise;
+  }
+
+  /**
+   * Runs the request with retries and reports it to the observer.
+   */
+  private async execute(stream = false): Promise<Response> {
+    // A missing path param fails here, before anything starts
+    const url = this.buildUrl();
+    this._startedAt = Date.now();
+    this.startDeadline();
+    const cancelWait = () => this._cancelWait?.();
+    this._externalSignal?.addEventListener('abort', cancelWait);
+    // A traceparent set by the caller is the parent of our spans
+    this._trace = this._tracing ? new RequestTrace(this._tracing, this._headers['traceparent']) : null;
+    notify(this._observer, 'onRequestStart', {
+      request: this,
+      attributes: requestAttributes(this._method, url)
+    });
+
+    try {
+      const response = await this.retryLoop(stream);
+      if (this._responseSchema && !stream) {
+        response.body = await this.validateBody(response, this._responseSchema);
+      }
+      // A streamed body is still downloading; guardBody ends the deadline
+      if (!stream) this.clearDeadline();
+      notify(this._observer, 'onResponse', {
+        request: this,
+        response,
+        timings: response.timings,
+        attributes: {
+          ...requestAttributes(this._method, this.buildUrl(), this._attempt),
+          ...responseAttributes(response.status)
+        }
+      });
+      return response;
+    } catch (error) {
+      this.clearDeadline();
+      notify(this._observer, 'onError', {
+        request: this,
+        error: error as Error,
+        attempt: this._attempt,
+        duration: Date.now() - this._startedAt,
+        attributes: {
+          ...requestAttributes(this._method, this.buildUrl(), this._attempt),
+          ...errorAttributes(error)
+        }
+      });
+      throw error;
+    } finally {
+      this._externalSignal?.removeEventListener('abort', cancelWait);
+    }
+  }
+
+  /**
+   * The deadline spans every attempt, retry wait and the body download.
+   */
+  private startDeadline(): void {
+    this.clearDeadline();
+    const deadline = this._timeout.deadline;
+    if (!deadline) return;
 
-    let lastError: Error | null = null;
+    const controller = new AbortController();
+    this._deadline = controller;
+    this._deadlineTimer = setTimeout(() => {
+      controller.abort(new TimeoutError(undefined, { phase: 'deadline', timeout: deadline }));
+      this._cancelWait?.();
+    }, deadline);
+  }
+
+  private clearDeadline(): void {
+    clearTimeout(this._deadlineTimer);
+    this._deadlineTimer = undefined;
+  }
+
+  private async validateBody<T>(response: Response, schema: Validator<T>): Promise<T> {
+    const result = await runValidator(schema, response.body);
+    if (result.issues) throw this.decorate(new ResponseValidationError(response, result.issues));
+    return result.value;
+  }
 
-    for (let attempt = 0; attempt <= retryLimit; attempt++) {
+  private async retryLoop(stream: boolean): Promise<Response> {
+    const options = this._retry;
+    const retryLimit = options.limit ?? 0;
+    const startedAt = this._startedAt;
+    let previousDelay = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      this._attempt = attempt;
+      this._attemptStart = Date.now();
+      notify(this._observer, 'onAttempt', {
+        request: this,
+        attempt,
+        attributes: requestAttributes(this._method, this.buildUrl(), attempt)
+      });
       try {
-        return await this.doFetch();
+        return await this.attempt(stream);
       } catch (error) {
-        lastError = error as Error;
+        const lastError = error as Error;
+        if (lastError instanceof RequestError && lastError.attempt === 0) this.decorate(lastError);
 
-        if (!retryMethods.includes(this._method)) throw lastError;
-        if (lastError instanceof TimeoutError) throw lastError;
-        if (lastError instanceof HTTPError && !retryStatusCodes.includes(lastError.status)) {
-          throw lastError;
-        }
-        if (attempt >= retryLimit) throw lastError;
+        if (this._aborted || this._externalSignal?.aborted || this._deadline?.signal.aborted) throw lastError;
+        // Retrying into an open circuit only adds load to a failing service
+        if (lastError instanceof CircuitOpenError) throw lastError;
+        if (attempt > retryLimit) throw lastError;
+        // A consumed stream cannot be sent again; send(() => stream) can
+        if (isStreamBody(this._body)) throw lastError;
+
+        const delay = computeRetryDelay(options, attempt, lastError, previousDelay);
+        if (delay === null) throw lastError;
+
+        const context: RetryContext = {
+          attempt,
+          retryCount: attempt,
+          error: lastError,
+          response: lastError instanceof HTTPError ? lastError.response : undefined,
+          code: errorCode(lastError),
+          delay,
+          elapsed: Date.now() - startedAt,
+          headers: this._headers,
+          request: this
+        };
+
+        const decision = options.shouldRetry ? await options.shouldRetry(context) : undefined;
+        if (!(decision ?? isRetryable(options, this._method, lastError))) throw lastError;
 
         for (const hook of this._hooks.beforeRetry) {
-          await hook(lastError as HTTPError, attempt + 1);
+          await hook(lastError, attempt, context);
+        }
+
+        if (options.deadline !== undefined && Date.now() - startedAt + context.delay > options.deadline) {
+          throw lastError;
         }
 
-        const delay = retryDelay(attempt + 1);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        previousDelay = context.delay;
+        await this.wait(context.delay);
+        if (this._aborted || this._externalSignal?.aborted) throw lastError;
+        if (this._deadline?.signal.aborted) throw this.decorate(this._deadline.signal.reason as TimeoutError);
       }
     }
-
-    throw lastError;
   }
 
-  private async doFetch(): Promise<Response> {
-    // Build URL with query params
-    let url = this._url;
-    const queryKeys = Object.keys(this._query);
-    if (queryKeys.length > 0) {
-      const searchParams = new URLSearchParams(this._query);
-      const separator = url.includes('?') ? '&' : '?';
-      url = `${url}${separator}${searchParams.toString()}`;
+  /**
+   * One attempt, admitted by and reported to the circuit breaker if any.
+   */
+  private async attempt(stream: boolean): Promise<Response> {
+    const breaker = this._circuitBreaker;
+    if (!breaker) return this.doFetch(stream);
+
+    const key = breaker.acquire(this.buildUrl());
+    try {
+      const response = await this.doFetch(stream);
+      breaker.release(key, breaker.classify(undefined, response));
+      return response;
+    } catch (error) {
+      const aborted = this._aborted || this._externalSignal?.aborted;
+      breaker.release(key, aborted ? 'ignore' : breaker.classify(error));
+      throw error;
     }
+  }
 
-    // Prepare body
-    let body: string | FormData | undefined;
-    const hasAttachments = this._attachments.length > 0;
-    const hasFormFields = Object.keys(this._formFields).length > 0;
+  /**
+   * Sleeps between retries; abort(), the signal and the deadline cut it short.
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this._cancelWait = null;
+        resolve();
+      }, ms);
+      this._cancelWait = () => {
+        clearTimeout(timer);
+        this._cancelWait = null;
+        resolve();
+      };
+    });
+  }
 
-    if (hasAttachments || hasFormFields) {
-      const formData = new FormData();
-      for (const [key, value] of Object.entries(this._formFields)) {
-        formData.append(key, value);
+  private async doFetch(stream = false): Promise<Response> {
+    // Setup abort controller
+    const controller = new AbortController();
+    this._abortController = controller;
+    const signal = AbortSignal.any([
+      controller.signal,
+      ...(this._externalSignal ? [this._externalSignal] : []),
+      ...(this._deadline ? [this._deadline.signal] : [])
+    ]);
+
+    // Timers abort with a TimeoutError as the reason, which tells them apart
+    // from abort() and the external signal
+    const mapError = (error: unknown): unknown => {
+      if (signal.aborted && signal.reason instanceof TimeoutError) return this.decorate(signal.reason);
+      if (error instanceof RequestError) return error;
+      if (signal.aborted || (error as Error)?.name === 'AbortError') {
+        return this.decorate(new AbortError(undefined, { cause: signal.reason ?? error }));
       }
-      for (const { name, file, filename } of this._attachments) {
-        if (typeof file === 'string') {
-          formData.append(name, new Blob([file]), filename);
-        } else if (Buffer.isBuffer(file)) {
-          formData.append(name, new Blob([file]), filename);
-        } else {
-          formData.append(name, file, filename);
-        }
+      const code = errorCode(error);
+      if (error instanceof TypeError && (code !== undefined || error.message === 'fetch failed')) {
+        return this.decorate(new NetworkError(error, code));
       }
-      body = formData;
-      delete this._headers['content-type'];
-    } else if (this._body !== undefined) {
-      const contentType = this._headers['content-type'] || '';
-      if (typeof this._body === 'object') {
-        if (contentType.includes('form-urlencoded')) {
-          body = new URLSearchParams(this._body).toString();
-        } else {
-          body = this._stringifyJson(this._body);
-          if (!this._headers['content-type']) {
-            this._headers['content-type'] = 'application/json';
-          }
-        }
-      } else {
-        body = String(this._body);
+      return error;
+    };
+
+    this._mutable = true;
+    try {
+      for (const hook of this._hooks.beforeRequest) {
+        const result: unknown = hook(this);
+        // `req => req.set(...)` returns the request itself, which would wait on itself
+        if (result !== this) await result;
       }
+    } finally {
+      this._mutable = false;
     }
 
-    // Setup abort controller
-    this._abortController = new AbortController();
-    const signal = this._abortController.signal;
+    // Built after the hooks, which may have changed the URL, query or body
+    const url = this.buildUrl();
+    const { body, contentEncoding } = await this.compressBody(await this.prepareBody());
 
-    if (this._externalSignal) {
-      this._externalSignal.addEventListener('abort', () => this._abortController?.abort());
-    }
+    const { request: requestTimeout, response: responseTimeout, idle: idleTimeout } = this._timeout;
+    const expire = (phase: TimeoutPhase, ms: number) =>
+      setTimeout(() => controller.abort(new TimeoutError(undefined, { phase, timeout: ms })), ms);
+    const timeoutId = requestTimeout ? expire('request', requestTimeout) : undefined;
+    const responseTimer = responseTimeout ? expire('response', responseTimeout) : undefined;
 
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
-    const timeoutMs = this._timeout.request || this._timeout.response;
+    let streaming = false;
+    let release: (() => void) | undefined;
+    let span: AttemptSpan | undefined;
+    let spanAttributes: Attributes = {};
+    let spanError: unknown;
+    const timings: Timings = {
+      start: this._startedAt,
+      attemptStart: this._attemptStart,
+      responseHeaders: 0,
+      bodyComplete: undefined,
+      retries: this._attemptStart - this._startedAt,
+      total: undefined
+    };
+    const bodyComplete = () => {
+      if (timings.bodyComplete !== undefined) return;
+      const now = Date.now();
+      timings.bodyComplete = now - timings.attemptStart;
+      timings.total = now - timings.start;
+    };
+    const done = () => {
+      clearTimeout(timeoutId);
+      clearTimeout(responseTimer);
+      release?.();
+      bodyComplete();
+      span?.end(spanAttributes, spanError);
+      span = undefined;
+    };
 
-    if (timeoutMs) {
-      timeoutId = setTimeout(() => this._abortController?.abort(), timeoutMs);
-    }
+    try {
+      // Time spent queued counts against the timeout and signal
+      if (this._queue) {
+        release = await this._queue.acquire(url, { priority: this._priority, signal });
+      }
 
-    for (const hook of this._hooks.beforeRequest) {
-      await hook(this);
-    }
+      // Upload progress needs a body fetch pulls chunk by chunk
+      let requestBody = body;
+      let uploadSize: number | undefined;
+      if (body !== undefined && this.listenerCount('progress') > 0) {
+        const upload = await uploadStream(body, event => this.emit('progress', event));
+        // FormData needs the boundary of the encoding we actually send
+        if (upload.contentType && (body instanceof FormData || !this._headers['content-type'])) {
+          this._headers['content-type'] = upload.contentType;
+        }
+        requestBody = upload.stream;
+        // Sent as a stream, but with its length rather than chunked
+        uploadSize = upload.size;
+      }
 
-    try {
-      const fetchResponse = await this._customFetch(url, {
+      const dispatcher = await this._dispatcher?.resolve();
+
+      this.emit('request', this);
+
+      span = this._trace?.startSpan(this._method, requestAttributes(this._method, url, this._attempt));
+
+      // Not kept in _headers, where the next attempt would take them for its own body
+      const attemptHeaders = {
+        ...(contentEncoding && { 'content-encoding': contentEncoding }),
+        ...(uploadSize !== undefined && { 'content-length': String(uploadSize) }),
+        ...span?.headers
+      };
+      const init: RequestInit = {
         method: this._method,
-        headers: this._headers,
-        body,
+        headers: Object.keys(attemptHeaders).length > 0 ? { ...this._headers, ...attemptHeaders } : this._headers,
+        body: requestBody,
         signal,
         credentials: this._credentials,
-        redirect: this._redirect
-      });
+        redirect: this._redirect,
+        duplex: requestBody instanceof ReadableStream ? 'half' : undefined,
+        ...(dispatcher && { dispatcher })
+      };
 
-      const text = await fetchResponse.text();
-      let responseBody: any = text;
+      let fetchResponse: globalThis.Response;
+      let cacheStatus: CacheStatus | undefined;
+      // A shared response is buffered for every caller, which a stream cannot wait for
+      const dedupe = stream ? null : this._dedupe;
+      const send = (u: string, i: RequestInit) => dedupe
+        ? dedupe.fetch(u, i, shared => this.fetchWithAuth(u, shared), [this._cookieJar, this._auth])
+        : this.fetchWithAuth(u, i);
+      if (this._cache) {
+        const credentialed = Boolean(this._cookieJar || this._auth || this._headers['authorization']);
+        const cached = await this._cache.fetch(url, init, send, credentialed);
+        fetchResponse = cached.response;
+        cacheStatus = cached.status;
+      } else {
+        fetchResponse = await send(url, init);
+      }
+      timings.responseHeaders = Date.now() - timings.attemptStart;
+      clearTimeout(responseTimer);
+      spanAttributes = responseAttributes(fetchResponse.status);
+      this._queue?.observe(url, fetchResponse.status, fetchResponse.headers);
 
-      const contentType = fetchResponse.headers.get('content-type') || '';
-      if (contentType.includes('application/json') && text) {
-        try {
-          responseBody = this._parseJson(text);
-        } catch {
-          // Keep as text if JSON parsing fails
+      if (idleTimeout && fetchResponse.body) {
+        fetchResponse = replaceBody(
+          fetchResponse,
+          idleStream(fetchResponse.body, idleTimeout, () => {
+            controller.abort(new TimeoutError(undefined, { phase: 'idle', timeout: idleTimeout }));
+          })
+        );
+      }
+
+      // Native fetch decodes the body itself; a custom fetch may not
+      const encoding = fetchResponse.headers.get('content-encoding');
+      const maxSize = this._maxResponseSize;
+      let decoded = false;
+      let encodedSize = 0;
+      let decodedSize = 0;
+      if (fetchResponse.body) {
+        const declared = contentLength(fetchResponse.headers);
+        if (maxSize !== undefined && !encoding && declared !== undefined && declared > maxSize) {
+          await fetchResponse.body.cancel();
+          throw this.decorate(new ResponseTooLargeError(maxSize));
+        }
+        let source = fetchResponse.body;
+        if (encoding && (this._decompress ?? this._customFetch !== globalThis.fetch)) {
+          ({ stream: source, decoded } = await decodeStream(
+            meterStream(source, total => { encodedSize = total; }),
+            encoding
+          ));
         }
+        fetchResponse = replaceBody(fetchResponse, meterStream(
+          source,
+          total => { decodedSize = total; },
+          maxSize,
+          () => this.decorate(new ResponseTooLargeError(maxSize!))
+        ));
+      }
+      const setBodySizes = (target: Response) => {
+        target.decodedBodySize = decodedSize;
+        target.encodedBodySize = decoded
+          ? encodedSize
+          : encoding ? contentLength(fetchResponse.headers) : decodedSize;
+      };
+
+      if (fetchResponse.body && this.listenerCount('progress') > 0) {
+        const total = contentLength(fetchResponse.headers);
+        fetchResponse = replaceBody(
+          fetchResponse,
+          countStream(fetchResponse.body, 'download', total, event => this.emit('progress', event))
+        );
       }
 
-      let response = new Response(fetchResponse, text, responseBody);
+      // Streaming mode leaves the body unread; an error body is only read
+      // when we are about to throw so HTTPError still carries it
+      let response: Response;
+      if (stream && (fetchResponse.ok || !this._throwHttpErrors)) {
+        let streamed: Response | undefined;
+        const bodyDone = () => {
+          if (streamed) setBodySizes(streamed);
+          done();
+          this.clearDeadline();
+        };
+        response = streamed = new Response(this.guardBody(fetchResponse, bodyDone, mapError), '', null);
+        if (!fetchResponse.body) setBodySizes(response);
+        streaming = true;
+      } else {
+        const bytes = new Uint8Array(await fetchResponse.arrayBuffer());
+        bodyComplete();
+        const binary = this._responseType === 'arraybuffer' || this._responseType === 'blob';
+        const text = binary ? '' : new TextDecoder().decode(bytes);
+        let body: any;
+        try {
+          body = this.parseBody(fetchResponse, text, bytes);
+        } catch (error) {
+          // An error status matters more than its unparseable body
+          if (fetchResponse.ok || !this._throwHttpErrors) throw error;
+          body = text;
+        }
+        response = new Response(fetchResponse, text, body);
+        setBodySizes(response);
+      }
+      response.cacheStatus = cacheStatus;
+      response.timings = timings;
+      response.fromCache = cacheStatus === 'hit' || cacheStatus === 'stale' || cacheStatus === 'revalidated';
 
       for (const hook of this._hooks.afterResponse) {
         const result = await hook(response);
@@ -344,47 +1020,306 @@ export class Request implements PromiseLike<Response> {
       }
 
       if (this._throwHttpErrors && !fetchResponse.ok) {
-        let error = new HTTPError(response);
+        let error: Error = this.decorate(new HTTPError(response));
         for (const hook of this._hooks.beforeError) {
-          error = await hook(error);
+          // Later hooks see what earlier ones returned, normally still an HTTPError
+          error = (await hook(error as HTTPError)) ?? error;
         }
         throw error;
       }
 
+      this.emit('response', response);
       return response;
     } catch (error) {
-      if ((error as Error).name === 'AbortError') {
-        throw new TimeoutError();
-      }
-      throw error;
+      // A hook threw after the stream was handed over; nobody will read it
+      streaming = false;
+      spanError = mapError(error);
+      spanAttributes = { ...spanAttributes, ...errorAttributes(spanError) };
+      throw spanError;
     } finally {
-      if (timeoutId) clearTimeout(timeoutId);
+      if (!streaming) done();
+    }
+  }
+
+  private buildUrl(): string {
+    let url = this.url;
+    if (this._query.length > 0) {
+      let pairs = this._query;
+      if (this._sortQuery) {
+        const compare = typeof this._sortQuery === 'function'
+          ? this._sortQuery
+          : (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+        pairs = [...pairs].sort(([a], [b]) => compare(a, b));
+      }
+      const separator = url.includes('?') ? '&' : '?';
+      url = `${url}${separator}${stringifyQuery(pairs)}`;
+    }
+    return url;
+  }
+
+  private toQueryPairs(params: Record<string, any>, arrayFormat?: ArrayFormat): QueryPair[] {
+    const serializer = this._options.paramsSerializer;
+    return serializer
+      ? parseQuery(serializer(params))
+      : toQueryPairs(params, arrayFormat ?? this._options.arrayFormat);
+  }
+
+  /**
+   * Lets the auth provider sign the request as it is about to be sent, and
+   * replays it once if the provider answers a 401 challenge.
+   */
+  private async fetchWithAuth(url: string, init: RequestInit): Promise<globalThis.Response> {
+    const provider = this._auth;
+    if (!provider) return this.fetchWithCookies(url, init);
+
+    let body = init.body;
+    const baseHeaders = Object.fromEntries(new Headers(init.headers));
+    // A replay needs the body again, which a stream cannot give
+    if (provider.challenge && body instanceof ReadableStream) body = await encodeBody(body, baseHeaders);
+
+    const authorize = async (): Promise<[AuthRequest, RequestInit]> => {
+      const headers = { ...baseHeaders };
+      const request: AuthRequest = {
+        method: this._method,
+        url,
+        headers,
+        body: async () => {
+          if (body == null) return new Uint8Array();
+          if (!(body instanceof Uint8Array)) {
+            // Kept for the replay, which sends these bytes too
+            body = await encodeBody(body, baseHeaders);
+            if (baseHeaders['content-type']) headers['content-type'] = baseHeaders['content-type'];
+          }
+          return body;
+        }
+      };
+      await provider.authorize(request);
+      const duplex = body instanceof ReadableStream ? 'half' : undefined;
+      return [request, { ...init, headers, body, duplex }];
+    };
+
+    const [request, authorized] = await authorize();
+    const response = await this.fetchWithCookies(url, authorized);
+    if (response.status !== 401 || !provider.challenge) return response;
+    if (!(await provider.challenge(request, response))) return response;
+
+    await response.body?.cancel();
+    const [, replay] = await authorize();
+    return this.fetchWithCookies(url, replay);
+  }
+
+  /**
+   * With a cookie jar, redirects are followed here instead of by fetch so
+   * Set-Cookie headers on intermediate responses reach the jar.
+   */
+  private async fetchWithCookies(url: string, init: RequestInit): Promise<globalThis.Response> {
+    const jar = this._cookieJar;
+    if (!jar) return this._customFetch(url, init);
+
+    const follow = init.redirect === 'follow';
+    let currentUrl = url;
+    let currentInit: RequestInit = { ...init, redirect: follow ? 'manual' : init.redirect };
+
+    for (let redirectCount = 0; ; redirectCount++) {
+      const headers = { ...(currentInit.headers as Record<string, string>) };
+      const cookie = await jar.getCookieString(currentUrl);
+      if (cookie) headers['cookie'] = headers['cookie'] ? `${headers['cookie']}; ${cookie}` : cookie;
+
+      const response = await this._customFetch(currentUrl, { ...currentInit, headers });
+      for (const setCookie of getSetCookie(response.headers)) {
+        await jar.setCookie(setCookie, currentUrl);
+      }
+
+      const location = response.headers.get('location');
+      if (!follow || !location || !REDIRECT_STATUS_CODES.includes(response.status)) {
+        return response;
+      }
+      if (redirectCount >= MAX_REDIRECTS) {
+        throw new Error(`Maximum number of redirects (${MAX_REDIRECTS}) exceeded`);
+      }
+      await response.body?.cancel();
+
+      const nextUrl = new URL(location, currentUrl).toString();
+      const nextHeaders = { ...(currentInit.headers as Record<string, string>) };
+      const method = currentInit.method ?? 'GET';
+
+      // Same rewrite rules as fetch: 303 (and 301/302 after POST) become a bodiless GET
+      const switchToGet = (response.status === 303 && method !== 'HEAD') ||
+        ((response.status === 301 || response.status === 302) && method === 'POST');
+      if (switchToGet) {
+        currentInit = { ...currentInit, method: 'GET', body: undefined, duplex: undefined };
+        delete nextHeaders['content-type'];
+        delete nextHeaders['content-length'];
+      }
+      if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+        delete nextHeaders['authorization'];
+        delete nextHeaders['cookie'];
+      }
+
+      currentInit = { ...currentInit, headers: nextHeaders };
+      currentUrl = nextUrl;
+    }
+  }
+
+  private async prepareBody(): Promise<FetchBody | undefined> {
+    const hasAttachments = this._attachments.length > 0;
+    const hasFormFields = Object.keys(this._formFields).length > 0;
+
+    if (hasAttachments || hasFormFields) {
+      const formData = new FormData();
+      for (const [key, value] of Object.entries(this._formFields)) {
+        formData.append(key, value);
+      }
+      for (const { name, file, filename } of this._attachments) {
+        if (typeof file === 'string') {
+          // superagent-style: a string is a path, opened per attempt
+          formData.append(name, await openFile(file), filename ?? basename(file));
+        } else if (Buffer.isBuffer(file)) {
+          formData.append(name, new Blob([file]), filename);
+        } else {
+          formData.append(name, file, filename);
+        }
+      }
+      delete this._headers['content-type'];
+      return formData;
+    }
+
+    if (this._body === undefined) return undefined;
+
+    let data = typeof this._body === 'function' ? await this._body() : this._body;
+    if (this._bodySchema) {
+      const result = await runValidator(this._bodySchema, data);
+      if (result.issues) throw this.decorate(new RequestValidationError(result.issues));
+      data = result.value;
+    }
+    if (isAsyncIterable(data) && !(data instanceof ReadableStream)) {
+      return toReadableStream(data);
+    }
+    if (isRawBody(data)) {
+      return data;
+    }
+
+    // Strings and numbers are sent as given unless a serializer is forced
+    if (typeof data !== 'object') {
+      return this._serializer ? this.serializeBody(this._serializer, data) : String(data);
+    }
+    if (!this._headers['content-type']) {
+      this._headers['content-type'] = 'application/json';
+    }
+    const serializer = this._serializer
+      ?? findCodec(this._serializers, this._headers['content-type'])
+      ?? DEFAULT_SERIALIZERS['application/json'];
+    return this.serializeBody(serializer, data);
+  }
+
+  /**
+   * Applies `compress()` or `compressRequests`. Streams are always compressed
+   * since their size is unknown; a body that already has a Content-Encoding
+   * is left alone.
+   */
+  private async compressBody(
+    body: FetchBody | undefined
+  ): Promise<{ body: FetchBody | undefined; contentEncoding?: ContentEncoding }> {
+    const compression = this._compression;
+    if (!compression || body === undefined || this._headers['content-encoding']) return { body };
+
+    const { encoding = 'gzip', threshold = 1024 } = compression;
+    if (body instanceof ReadableStream) {
+      return { body: await compressStream(body, encoding), contentEncoding: encoding };
+    }
+    const bytes = await encodeBody(body, this._headers);
+    if (bytes.byteLength < threshold) return { body: bytes };
+    return { body: await compressBytes(bytes, encoding), contentEncoding: encoding };
+  }
+
+  private serializeBody(serializer: Serializer, data: any): FetchBody {
+    return serializer(data, {
+      contentType: this._headers['content-type'] || '',
+      stringifyJson: this._stringifyJson,
+      stringifyQuery: data => stringifyQuery(this.toQueryPairs(data))
+    }) as FetchBody;
+  }
+
+  private parseBody(fetchResponse: globalThis.Response, text: string, bytes: Uint8Array): any {
+    const contentType = fetchResponse.headers.get('content-type') || '';
+    switch (this._responseType) {
+      case 'arraybuffer':
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+      case 'blob':
+        return new Blob([bytes], { type: contentType });
+      case 'text':
+        return text;
+    }
+
+    const parser = this._responseType === 'json'
+      ? DEFAULT_PARSERS['application/json']
+      : this._parser ?? findCodec(this._parsers, contentType);
+    if (!parser || !bytes.byteLength) return text;
+    try {
+      return parser(text, { bytes, contentType, response: fetchResponse, parseJson: this._parseJson });
+    } catch (error) {
+      throw this.decorate(new ParseError(text, error));
     }
   }
 
+  /**
+   * Fills in the request context of an error raised by the current attempt.
+   */
+  private decorate<T extends RequestError>(error: T): T {
+    const end = Date.now();
+    error.method = this._method;
+    error.url = this.buildUrl();
+    error.attempt = this._attempt;
+    error.timings = { start: this._attemptStart, end, duration: end - this._attemptStart };
+    error.headers = redactHeaders(this._headers);
+    return error;
+  }
+
+  /**
+   * Keeps the timeout running (and the queue slot taken) while a streamed body
+   * is consumed; `done` runs once the body ends, errors or is cancelled.
+   */
+  private guardBody(
+    fetchResponse: globalThis.Response,
+    done: () => void,
+    mapError: (error: unknown) => unknown
+  ): globalThis.Response {
+    if (!fetchResponse.body) {
+      done();
+      return fetchResponse;
+    }
+
+    const body = guardStream(fetchResponse.body, {
+      onDone: done,
+      mapError
+    });
+
+    return replaceBody(fetchResponse, body);
+  }
+
   // ==========================================================================
   // Promise Interface
   // ==========================================================================
 
-  then<TResult1 = Response, TResult2 = never>(
-    onfulfilled?: ((value: Response) => TResult1 | PromiseLike<TResult1>) | null,
+  then<TResult1 = Response<TBody>, TResult2 = never>(
+    onfulfilled?: ((value: Response<TBody>) => TResult1 | PromiseLike<TResult1>) | null,
     onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
   ): Promise<TResult1 | TResult2> {
-    return this.execute().then(onfulfilled, onrejected);
+    return this.run().then(onfulfilled, onrejected);
   }
 
   catch<TResult = never>(
     onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
-  ): Promise<Response | TResult> {
-    return this.execute().catch(onrejected);
+  ): Promise<Response<TBody> | TResult> {
+    return this.run().catch(onrejected);
   }
 
-  finally(onfinally?: (() => void) | null): Promise<Response> {
-    return this.execute().finally(onfinally);
+  finally(onfinally?: (() => void) | null): Promise<Response<TBody>> {
+    return this.run().finally(onfinally);
   }
 
-  end(callback?: (err: Error | null, res?: Response) => void): void {
-    this.execute()
+  end(callback?: (err: Error | null, res?: Response<TBody>) => void): void {
+    this.run()
       .then(res => callback?.(null, res))
       .catch(err => callback?.(err));
   }
@@ -393,23 +1328,124 @@ export class Request implements PromiseLike<Response> {
   // Response Shortcut Methods (ky-style)
   // ==========================================================================
 
-  async json<T = any>(): Promise<T> {
-    const res = await this.execute();
-    return res.body;
+  /**
+   * The parsed body, validated by `schema` when given.
+   */
+  async json<T = TBody>(schema?: Validator<T>): Promise<T> {
+    const res = await this.run();
+    return schema ? this.validateBody(res, schema) : res.body as unknown as T;
   }
 
   async text(): Promise<string> {
-    const res = await this.execute();
+    const res = await this.run();
     return res.text;
   }
 
   async blob(): Promise<Blob> {
-    const response = await this.doFetch();
+    const response = await this.run(true);
     return response._response.blob();
   }
 
   async arrayBuffer(): Promise<ArrayBuffer> {
-    const response = await this.doFetch();
+    const response = await this.run(true);
     return response._response.arrayBuffer();
   }
+
+  // ==========================================================================
+  // Pagination (got-style)
+  // ==========================================================================
+
+  /**
+   * Iterates items across pages, following `Link: rel="next"` by default.
+   * Later pages reuse this request's headers, hooks, retry and timeout.
+   */
+  paginate<T = any>(options?: PaginateOptions<T>): Paginator<T> {
+    return new Paginator<T>(this, url => this.forUrl(url), options);
+  }
+
+  private forUrl(url: string): Request {
+    const request = new Request(this._method, url, this._options);
+    request._headers = { ...this._headers };
+    request._timeout = this._timeout;
+    request._retry = this._retry;
+    request._hooks = {
+      beforeRequest: [...this._hooks.beforeRequest],
+      afterResponse: [...this._hooks.afterResponse],
+      beforeRetry: [...this._hooks.beforeRetry],
+      beforeError: [...this._hooks.beforeError]
+    };
+    request._throwHttpErrors = this._throwHttpErrors;
+    request._credentials = this._credentials;
+    request._redirect = this._redirect;
+    request._priority = this._priority;
+    request._auth = this._auth;
+    request._compression = this._compression;
+    request._decompress = this._decompress;
+    request._maxResponseSize = this._maxResponseSize;
+    request._plugins = new Set(this._plugins);
+    request._methods = { ...this._methods };
+    Object.assign(request, this._methods);
+    request._sortQuery = this._sortQuery;
+    request._responseSchema = this._responseSchema;
+    request._parser = this._parser;
+    request._serializer = this._serializer;
+    request._responseType = this._responseType;
+    return request;
+  }
+
+  // ==========================================================================
+  // Streaming (superagent/got-style)
+  // ==========================================================================
+
+  /**
+   * Sends the request and resolves with the unread body stream once headers
+   * arrive. Hooks, retries and HTTPError behave as for buffered requests.
+   */
+  async stream(): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.run(true);
+    return response._response.body ?? emptyStream();
+  }
+
+  /**
+   * Opens a Server-Sent Events stream. Every (re)connection reuses this
+   * request's headers, hooks and signal; abort() closes the stream.
+   */
+  events(options: EventStreamOptions = {}): EventStream {
+    const url = this.buildUrl();
+    const stream = new EventStream(
+      // Long-lived by nature, so the request timeout does not apply
+      () => this.forUrl(url).timeout(0),
+      { signal: this._externalSignal ?? undefined, ...options }
+    );
+    this.once('abort', () => stream.close());
+    return stream;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Uint8Array> {
+    yield* iterateStream(await this.stream());
+  }
+
+  async *lines(): AsyncGenerator<string> {
+    yield* iterateLines(await this.stream());
+  }
+
+  async *ndjson<T = any>(): AsyncGenerator<T> {
+    for await (const line of this.lines()) {
+      if (!line.trim()) continue;
+      let value: T;
+      try {
+        value = this._parseJson(line);
+      } catch (error) {
+        throw this.decorate(new ParseError(line, error));
+      }
+      yield value;
+    }
+  }
+
+  pipe<T extends WritableLike>(destination: T, options: { end?: boolean } = {}): T {
+    this.stream()
+      .then(body => pipeToWritable(body, destination, options.end ?? true))
+      .catch(error => destination.destroy?.(error));
+    return destination;
+  }
 }
@@ -2,19 +2,26 @@
  * Response class - superagent compatible
  */
 
-import type { ResponseHeaders } from './types.js';
+import type { ResponseHeaders, CacheStatus, Timings } from './types.js';
+import { getSetCookie } from './cookies.js';
 
-export class Response {
+export class Response<TBody = any> {
   readonly status: number;
   readonly statusCode: number;
   readonly ok: boolean;
   readonly statusText: string;
   readonly headers: ResponseHeaders;
+  readonly setCookies: string[]; // Raw Set-Cookie values; headers['set-cookie'] joins them
   readonly type: string;
   readonly charset: string;
   readonly _response: globalThis.Response;
-  body: any;
+  body: TBody;
   text: string;
+  fromCache = false;
+  cacheStatus: CacheStatus | undefined; // Set when the instance has a cache
+  timings: Timings | undefined;
+  encodedBodySize: number | undefined; // Bytes received; undefined when fetch decoded a body without Content-Length
+  decodedBodySize: number | undefined; // Bytes after Content-Encoding; set on a stream once it is read
 
   constructor(
     nativeResponse: globalThis.Response,
@@ -38,6 +45,7 @@ export class Response {
     nativeResponse.headers.forEach((value, key) => {
       this.headers[key.toLowerCase()] = value;
     });
+    this.setCookies = getSetCookie(nativeResponse.headers);
   }
 
   private extractCharset(contentType: string): string {
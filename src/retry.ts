@@ -0,0 +1,114 @@
+/**
+ * Retry policy - backoff, jitter, Retry-After and error classification
+ */
+
+import type { RetryOptions, JitterStrategy } from './types.js';
+import { HTTPError, TimeoutError } from './errors.js';
+
+export const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+export const DEFAULT_RETRY_STATUS_CODES = [408, 413, 429, 500, 502, 503, 504];
+export const DEFAULT_RETRY_ERROR_CODES = [
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EADDRINUSE',
+  'EPIPE',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+];
+
+// Statuses whose Retry-After header is honoured (same set as ky)
+const RETRY_AFTER_STATUS_CODES = [413, 429, 503];
+
+export function defaultRetryDelay(attemptCount: number): number {
+  return Math.min(1000 * 2 ** (attemptCount - 1), 30000);
+}
+
+/**
+ * Finds a Node-style error code on an error or its cause chain. undici wraps
+ * socket failures as `TypeError('fetch failed', { cause })`; timeouts map to
+ * ETIMEDOUT so they can be listed in `errorCodes` like any network failure.
+ */
+export function errorCode(error: unknown): string | undefined {
+  if (error instanceof TimeoutError) return 'ETIMEDOUT';
+
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (typeof current.code === 'string') return current.code;
+    // Happy-eyeballs connects fail with an AggregateError of per-address errors
+    if (Array.isArray(current.errors) && typeof current.errors[0]?.code === 'string') {
+      return current.errors[0].code;
+    }
+    current = current.cause;
+  }
+  return undefined;
+}
+
+/**
+ * Retry-After as milliseconds from now: delta-seconds or an HTTP-date.
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function applyJitter(delay: number, strategy: JitterStrategy, previousDelay: number): number {
+  if (typeof strategy === 'function') return strategy(delay);
+  switch (strategy) {
+    case 'full':
+      return Math.random() * delay;
+    case 'equal':
+      return delay / 2 + Math.random() * (delay / 2);
+    case 'decorrelated': {
+      // AWS "decorrelated jitter": grows from the previous sleep, not the attempt
+      const base = Math.max(1, delay / 2);
+      return base + Math.random() * (Math.max(base, previousDelay * 3) - base);
+    }
+    default:
+      return delay;
+  }
+}
+
+/**
+ * The status, method and error-code checks applied when no shouldRetry is
+ * given (or it returns undefined).
+ */
+export function isRetryable(options: RetryOptions, method: string, error: unknown): boolean {
+  if (!(options.methods ?? DEFAULT_RETRY_METHODS).includes(method)) return false;
+  if (error instanceof HTTPError) {
+    return (options.statusCodes ?? DEFAULT_RETRY_STATUS_CODES).includes(error.status);
+  }
+  const code = errorCode(error);
+  return code !== undefined && (options.errorCodes ?? DEFAULT_RETRY_ERROR_CODES).includes(code);
+}
+
+/**
+ * Delay before the given retry. Returns `null` when the server asked us to
+ * wait longer than `maxRetryAfter`, which ends retrying.
+ */
+export function computeRetryDelay(
+  options: RetryOptions,
+  retryCount: number,
+  error: unknown,
+  previousDelay: number
+): number | null {
+  if ((options.respectRetryAfter ?? true) && error instanceof HTTPError &&
+      RETRY_AFTER_STATUS_CODES.includes(error.status)) {
+    const retryAfter = parseRetryAfter(error.response.get('retry-after'));
+    if (retryAfter !== undefined) {
+      return retryAfter > (options.maxRetryAfter ?? Infinity) ? null : retryAfter;
+    }
+  }
+
+  const backoff = (options.delay ?? defaultRetryDelay)(retryCount);
+  const jittered = applyJitter(backoff, options.jitter ?? 'none', previousDelay);
+  return Math.min(jittered, options.backoffLimit ?? Infinity);
+}
@@ -0,0 +1,280 @@
+/**
+ * Server-Sent Events client - WHATWG event stream parsing with reconnect
+ */
+
+import type { Request } from './request.js';
+import type { Response } from './response.js';
+import type { ServerSentEvent, EventStreamOptions } from './types.js';
+import { HTTPError } from './errors.js';
+import { Emitter } from './emitter.js';
+import { iterateStream } from './stream.js';
+
+const DEFAULT_RECONNECT_DELAY = 3000;
+
+export interface EventStreamEvents {
+  open: (response: Response) => void;
+  event: (event: ServerSentEvent) => void;
+  message: (event: ServerSentEvent) => void; // Only events of type "message"
+  error: (error: unknown) => void;
+  close: () => void;
+}
+
+/**
+ * Incremental parser for text/event-stream (WHATWG HTML §9.2.6). Accepts
+ * decoded text in arbitrary chunks; CR, LF and CRLF all end a line.
+ */
+export class EventStreamParser {
+  lastEventId = '';
+  private _onEvent: (event: ServerSentEvent) => void;
+  private _onRetry: (retry: number) => void;
+  private _line = '';
+  private _skipLF = false;
+  private _data = '';
+  private _eventType = '';
+  private _idBuffer = '';
+  private _retry: number | undefined;
+
+  constructor(
+    onEvent: (event: ServerSentEvent) => void,
+    onRetry: (retry: number) => void = () => {},
+    lastEventId = ''
+  ) {
+    this._onEvent = onEvent;
+    this._onRetry = onRetry;
+    // Seeded so events without an id keep the ID we reconnected with
+    this.lastEventId = lastEventId;
+    this._idBuffer = lastEventId;
+  }
+
+  feed(chunk: string): void {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (this._skipLF) {
+        this._skipLF = false;
+        if (char === '\n') {
+          start = i + 1;
+          continue;
+        }
+      }
+      if (char === '\r' || char === '\n') {
+        this.processLine(this._line + chunk.slice(start, i));
+        this._line = '';
+        this._skipLF = char === '\r';
+        start = i + 1;
+      }
+    }
+    this._line += chunk.slice(start);
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this._eventType = value;
+        break;
+      case 'data':
+        this._data += `${value}\n`;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this._idBuffer = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this._retry = Number(value);
+          this._onRetry(this._retry);
+        }
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    this.lastEventId = this._idBuffer;
+    const retry = this._retry;
+    this._retry = undefined;
+    if (this._data === '') {
+      this._eventType = '';
+      return;
+    }
+    const event: ServerSentEvent = {
+      id: this.lastEventId,
+      event: this._eventType || 'message',
+      data: this._data.slice(0, -1)
+    };
+    if (retry !== undefined) event.retry = retry;
+    this._data = '';
+    this._eventType = '';
+    this._onEvent(event);
+  }
+}
+
+/**
+ * A reconnecting event stream. Usable as an async iterable, an emitter, or both.
+ * Each connection is a fresh Request from `connect`, so headers, hooks and
+ * signals of the originating request apply on every reconnect.
+ */
+export class EventStream extends Emitter<EventStreamEvents> implements AsyncIterable<ServerSentEvent> {
+  lastEventId: string;
+  private _connect: () => Request;
+  private _reconnect: boolean;
+  private _reconnectDelay: number;
+  private _current: Request | null = null;
+  private _closed = false;
+  private _queue: ServerSentEvent[] | null = null;
+  private _wake: (() => void) | null = null;
+  private _failure: unknown = null;
+  private _delayTimer: ReturnType<typeof setTimeout> | undefined;
+  private _delayResolve: (() => void) | null = null;
+
+  constructor(connect: () => Request, options: EventStreamOptions = {}) {
+    super();
+    this._connect = connect;
+    this._reconnect = options.reconnect ?? true;
+    this._reconnectDelay = options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY;
+    this.lastEventId = options.lastEventId ?? '';
+
+    if (options.signal) {
+      if (options.signal.aborted) this._closed = true;
+      options.signal.addEventListener('abort', () => this.close(), { once: true });
+    }
+
+    // Deferred so listeners attached right after creation see every event
+    queueMicrotask(() => this.run());
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+    this._current?.abort();
+    clearTimeout(this._delayTimer);
+    this._delayResolve?.();
+    this.notify();
+    this.emit('close');
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<ServerSentEvent> {
+    this._queue ??= [];
+    try {
+      while (true) {
+        if (this._queue.length > 0) {
+          yield this._queue.shift() as ServerSentEvent;
+          continue;
+        }
+        if (this._failure) throw this._failure;
+        if (this._closed) return;
+        await new Promise<void>(resolve => {
+          this._wake = resolve;
+        });
+      }
+    } finally {
+      this.close();
+    }
+  }
+
+  private notify(): void {
+    const wake = this._wake;
+    this._wake = null;
+    wake?.();
+  }
+
+  private async run(): Promise<void> {
+    while (!this._closed) {
+      try {
+        await this.connectOnce();
+      } catch (error) {
+        if (this._closed) break;
+        this.emit('error', error);
+        // An HTTP error status is fatal, as in EventSource
+        if (error instanceof HTTPError) {
+          this.fail(error);
+          break;
+        }
+      }
+
+      if (this._closed) break;
+      if (!this._reconnect) {
+        this.close();
+        break;
+      }
+      await this.delay(this._reconnectDelay);
+    }
+  }
+
+  private async connectOnce(): Promise<void> {
+    const request = this._connect()
+      .set('accept', 'text/event-stream')
+      .set('cache-control', 'no-cache');
+    if (this.lastEventId) request.set('last-event-id', this.lastEventId);
+    this._current = request;
+
+    const opened: { response?: Response } = {};
+    request.once('response', response => {
+      opened.response = response;
+    });
+
+    const body = await request.stream();
+    if (this._closed) {
+      await body.cancel().catch(() => {});
+      return;
+    }
+
+    // A wrong content type is fatal, as in EventSource
+    const type = opened.response?.type;
+    if (!opened.response || type !== 'text/event-stream') {
+      await body.cancel().catch(() => {});
+      const error = new TypeError(`Expected content-type text/event-stream, got ${type || 'none'}`);
+      this.emit('error', error);
+      this.fail(error);
+      return;
+    }
+    this.emit('open', opened.response);
+
+    const parser = new EventStreamParser(
+      event => this.deliver(event),
+      retry => {
+        this._reconnectDelay = retry;
+      },
+      this.lastEventId
+    );
+
+    const decoder = new TextDecoder();
+    for await (const chunk of iterateStream(body)) {
+      parser.feed(decoder.decode(chunk, { stream: true }));
+      this.lastEventId = parser.lastEventId;
+      if (this._closed) break;
+    }
+  }
+
+  private deliver(event: ServerSentEvent): void {
+    this._queue?.push(event);
+    this.notify();
+    this.emit('event', event);
+    if (event.event === 'message') this.emit('message', event);
+  }
+
+  private fail(error: unknown): void {
+    this._failure = error;
+    this.close();
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this._delayResolve = resolve;
+      this._delayTimer = setTimeout(resolve, ms);
+    });
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Streaming helpers - work on web ReadableStreams so they run in any fetch runtime
+ */
+
+import type { WritableLike } from './types.js';
+
+export interface GuardStreamOptions {
+  onDone: () => void;
+  mapError: (error: unknown) => unknown;
+}
+
+/**
+ * Wraps a body stream so cleanup runs exactly once when it finishes, errors
+ * or is cancelled, and read errors can be translated (e.g. abort -> timeout).
+ */
+export function guardStream(
+  source: ReadableStream<Uint8Array>,
+  { onDone, mapError }: GuardStreamOptions
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  let done = false;
+  const finish = () => {
+    if (done) return;
+    done = true;
+    onDone();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = await reader.read();
+        if (result.done) {
+          finish();
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      } catch (error) {
+        finish();
+        controller.error(mapError(error));
+      }
+    },
+    async cancel(reason) {
+      finish();
+      await reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * Calls `onIdle` when the source takes longer than `ms` to produce a chunk.
+ * Only time spent waiting on the source counts, not a slow consumer.
+ */
+export function idleStream(
+  source: ReadableStream<Uint8Array>,
+  ms: number,
+  onIdle: () => void
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const timer = setTimeout(onIdle, ms);
+      try {
+        const result = await reader.read();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      } catch (error) {
+        controller.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+export async function* iterateStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    // Releasing on early exit (break/throw) cancels the underlying request body
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+export async function* iterateLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for await (const chunk of iterateStream(stream)) {
+    buffered += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      yield line.endsWith('\r') ? line.slice(0, -1) : line;
+    }
+  }
+
+  buffered += decoder.decode();
+  if (buffered) yield buffered.endsWith('\r') ? buffered.slice(0, -1) : buffered;
+}
+
+/**
+ * Pipes a web stream into a Node-style writable, honouring backpressure.
+ */
+export async function pipeToWritable(
+  stream: ReadableStream<Uint8Array>,
+  destination: WritableLike,
+  end = true
+): Promise<void> {
+  for await (const chunk of iterateStream(stream)) {
+    if (!destination.write(chunk)) {
+      await new Promise<void>(resolve => destination.once('drain', resolve));
+    }
+  }
+  if (end) destination.end();
+}
+
+export function emptyStream(): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.close();
+    }
+  });
+}
+
+/**
+ * Rebuilds a native response around a new body stream, keeping status and headers.
+ */
+export function replaceBody(
+  response: globalThis.Response,
+  body: ReadableStream<Uint8Array>
+): globalThis.Response {
+  return new globalThis.Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+/**
+ * Adapts any async iterable (Node Readable, async generator) to a web stream.
+ */
+export function toReadableStream(iterable: AsyncIterable<Uint8Array | string>): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value);
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    }
+  });
+}
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array | string> {
+  return value != null && typeof (value as any)[Symbol.asyncIterator] === 'function';
+}
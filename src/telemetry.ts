@@ -0,0 +1,142 @@
+/**
+ * Observability - OpenTelemetry HTTP attributes and W3C trace context propagation
+ */
+
+import type { Attributes, Observer, SpanLike, TracingOptions } from './types.js';
+import { HTTPError } from './errors.js';
+
+// Methods OpenTelemetry knows; anything else is reported as _OTHER
+const KNOWN_METHODS = ['CONNECT', 'DELETE', 'GET', 'HEAD', 'OPTIONS', 'PATCH', 'POST', 'PUT', 'TRACE'];
+
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/;
+
+/**
+ * Client request attributes per the OpenTelemetry HTTP semantic conventions.
+ * Credentials in the URL are redacted.
+ */
+export function requestAttributes(method: string, url: string, attempt = 1): Attributes {
+  const attributes: Attributes = {};
+
+  if (KNOWN_METHODS.includes(method)) {
+    attributes['http.request.method'] = method;
+  } else {
+    attributes['http.request.method'] = '_OTHER';
+    attributes['http.request.method_original'] = method;
+  }
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.username) parsed.username = 'REDACTED';
+    if (parsed.password) parsed.password = 'REDACTED';
+    attributes['url.full'] = parsed.toString();
+    attributes['url.scheme'] = parsed.protocol.slice(0, -1);
+    attributes['server.address'] = parsed.hostname;
+    attributes['server.port'] = Number(parsed.port) || (parsed.protocol === 'https:' ? 443 : 80);
+  } catch {
+    attributes['url.full'] = url;
+  }
+
+  if (attempt > 1) attributes['http.request.resend_count'] = attempt - 1;
+  return attributes;
+}
+
+export function responseAttributes(status: number): Attributes {
+  const attributes: Attributes = { 'http.response.status_code': status };
+  if (status >= 400) attributes['error.type'] = String(status);
+  return attributes;
+}
+
+export function errorAttributes(error: unknown): Attributes {
+  if (error instanceof HTTPError) return responseAttributes(error.status);
+  return { 'error.type': (error as Error)?.name || '_OTHER' };
+}
+
+/**
+ * Calls an observer callback; a broken observer never fails the request.
+ */
+export function notify<K extends keyof Observer>(
+  observer: Observer | undefined,
+  name: K,
+  event: Parameters<NonNullable<Observer[K]>>[0]
+): void {
+  try {
+    (observer?.[name] as ((event: unknown) => void) | undefined)?.(event);
+  } catch {
+    // Ignored on purpose
+  }
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+export function parseTraceparent(value: string | undefined): { traceId: string; spanId: string; flags: string } | undefined {
+  const match = value ? TRACEPARENT_PATTERN.exec(value.trim().toLowerCase()) : null;
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) return undefined;
+  return { traceId: match[2], spanId: match[3], flags: match[4] };
+}
+
+export interface AttemptSpan {
+  headers: Record<string, string>; // traceparent and tracestate to send
+  end(attributes: Attributes, error?: unknown): void;
+}
+
+function resolve(value: string | (() => string | undefined) | undefined): string | undefined {
+  return typeof value === 'function' ? value() : value;
+}
+
+/**
+ * Trace context for one request. Every attempt is its own client span; without
+ * a tracer, span IDs are generated here and only propagated, never exported.
+ */
+export class RequestTrace {
+  private _options: TracingOptions;
+  private _traceId: string;
+  private _flags: string;
+  private _tracestate: string | undefined;
+
+  constructor(options: TracingOptions, incomingTraceparent?: string) {
+    this._options = options;
+    const parent = parseTraceparent(resolve(options.parent) ?? incomingTraceparent);
+    this._traceId = parent?.traceId ?? randomHex(16);
+    this._flags = parent?.flags ?? '01';
+    this._tracestate = resolve(options.tracestate);
+  }
+
+  startSpan(name: string, attributes: Attributes): AttemptSpan {
+    const tracer = this._options.tracer;
+    if (!tracer) {
+      return {
+        headers: this.headers(`00-${this._traceId}-${randomHex(8)}-${this._flags}`, this._tracestate),
+        end: () => {}
+      };
+    }
+
+    // SpanKind.CLIENT
+    const span: SpanLike = tracer.startSpan(name, { kind: 2, attributes });
+    const context = span.spanContext();
+    const flags = context.traceFlags.toString(16).padStart(2, '0');
+    return {
+      headers: this.headers(
+        `00-${context.traceId}-${context.spanId}-${flags}`,
+        context.traceState?.serialize() || this._tracestate
+      ),
+      end: (endAttributes, error) => {
+        span.setAttributes(endAttributes);
+        if (error !== undefined) {
+          span.recordException?.(error);
+          // SpanStatusCode.ERROR
+          span.setStatus?.({ code: 2, message: (error as Error)?.message });
+        } else if (Number(endAttributes['http.response.status_code']) >= 400) {
+          span.setStatus?.({ code: 2 });
+        }
+        span.end();
+      }
+    };
+  }
+
+  private headers(traceparent: string, tracestate: string | undefined): Record<string, string> {
+    return tracestate ? { traceparent, tracestate } : { traceparent };
+  }
+}
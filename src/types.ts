@@ -3,19 +3,58 @@
  */
 
 // Fetch API types for cross-environment compatibility
+import type { Request } from './request.js';
+import type { Response } from './response.js';
+import type { HTTPError } from './errors.js';
+
 export type FetchCredentials = 'omit' | 'same-origin' | 'include';
 export type FetchRedirect = 'follow' | 'error' | 'manual';
 
 export interface TimeoutOptions {
-  request?: number;
-  response?: number;
+  request?: number;   // Each attempt, from sending until the body is read
+  response?: number;  // Each attempt, until response headers arrive
+  deadline?: number;  // The whole request: every attempt, retry wait and the body
+  idle?: number;      // Longest gap between body chunks
 }
 
+export type TimeoutPhase = 'request' | 'response' | 'deadline' | 'idle';
+
+export interface ErrorTimings {
+  start: number;     // Epoch ms when the attempt started
+  end: number;       // Epoch ms when it failed
+  duration: number;
+}
+
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated' | ((delay: number) => number);
+
 export interface RetryOptions {
   limit?: number;
   methods?: string[];
   statusCodes?: number[];
+  errorCodes?: string[];           // Network error codes worth retrying (ETIMEDOUT covers timeouts)
   delay?: (attemptCount: number) => number;
+  jitter?: JitterStrategy;         // Randomizes the backoff delay (default 'none')
+  backoffLimit?: number;           // Upper bound in ms for the backoff delay
+  respectRetryAfter?: boolean;     // Wait as told by Retry-After on 413/429/503 (default true)
+  maxRetryAfter?: number;          // Give up when Retry-After asks for longer than this (ms)
+  deadline?: number;               // Stop retrying once this many ms have passed since the first attempt
+  shouldRetry?: (context: RetryContext) => boolean | undefined | Promise<boolean | undefined>;
+}
+
+/**
+ * Passed to shouldRetry and beforeRetry hooks. Hooks may change `delay` and
+ * `headers`; header changes apply to the next attempt.
+ */
+export interface RetryContext {
+  attempt: number;      // The attempt that just failed, starting at 1
+  retryCount: number;   // The retry about to be made, starting at 1
+  error: Error;
+  response?: Response;  // The Response for HTTP errors
+  code?: string;        // Network error code, e.g. ECONNRESET or ETIMEDOUT
+  delay: number;        // Milliseconds until the next attempt
+  elapsed: number;      // Milliseconds since the first attempt started
+  headers: Record<string, string>;
+  request: Request;
 }
 
 export interface Hooks {
@@ -25,24 +64,418 @@ export interface Hooks {
   beforeError?: BeforeErrorHook[];
 }
 
-// Forward declarations for hook types
-export type BeforeRequestHook = (request: any) => any | void | Promise<any | void>;
-export type AfterResponseHook = (response: any) => any | void | Promise<any | void>;
-export type BeforeRetryHook = (error: any, retryCount: number) => void | Promise<void>;
-export type BeforeErrorHook = (error: any) => any | Promise<any>;
+export type BeforeRequestHook = (request: Request) => void | Promise<void>;
+// Returning a Response replaces the one later hooks and the caller see
+export type AfterResponseHook = (response: Response) => Response | void | Promise<Response | void>;
+export type BeforeRetryHook = (error: Error, retryCount: number, context: RetryContext) => void | Promise<void>;
+// Returning an error replaces the one thrown
+export type BeforeErrorHook = (error: HTTPError) => Error | void | Promise<Error | void>;
+
+/**
+ * Reusable request behaviour for `.use()`. Options and hooks are applied as
+ * if given to the request; `methods` become helper methods on it.
+ */
+export interface PluginObject<TMethods extends object = {}> {
+  name?: string;                 // Installed once per request, even if used again
+  options?: RequestOptions;
+  hooks?: Hooks;
+  methods?: TMethods & ThisType<Request>;
+  install?: (request: Request) => void;
+}
+
+// A superagent plugin is a function called with each request
+export type Plugin<TMethods extends object = {}> = PluginObject<TMethods> | ((request: Request) => void);
 
 export interface FileAttachment {
   name: string;
-  file: Blob | Buffer | string;
+  file: Blob | Buffer | string; // string is a file path, opened lazily
   filename?: string;
 }
 
+export interface ProgressEvent {
+  direction: 'upload' | 'download';
+  loaded: number;
+  total?: number;   // From content-length (download) or the encoded body size (upload)
+  percent?: number; // Only set when total is known
+}
+
+// Minimal Node-style writable accepted by Request#pipe (fs.WriteStream, http.ServerResponse, ...)
+export interface WritableLike {
+  write(chunk: Uint8Array): boolean;
+  end(): void;
+  once(event: 'drain', listener: () => void): unknown;
+  destroy?(error?: Error): void;
+}
+
+/**
+ * Anything that can store Set-Cookie values and produce a Cookie header.
+ * The built-in CookieJar implements it, as does tough-cookie's CookieJar.
+ */
+export interface CookieJarLike {
+  setCookie(setCookie: string, url: string): unknown;
+  getCookieString(url: string): string | Promise<string>;
+}
+
+export interface ServerSentEvent {
+  id: string;     // Last event ID in effect when the event was dispatched
+  event: string;  // Event type, "message" when the stream gave none
+  data: string;
+  retry?: number; // Reconnection time sent alongside this event, if any
+}
+
+export interface EventStreamOptions {
+  reconnect?: boolean;      // Reconnect when the stream ends or the network fails (default true)
+  reconnectDelay?: number;  // Initial delay in ms; the server's `retry:` field overrides it
+  lastEventId?: string;     // Sent as Last-Event-ID on the first connection
+  signal?: AbortSignal;     // Closes the stream when aborted
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'revalidated' | 'miss' | 'bypass';
+
+// Stored form of a cached response; plain JSON so stores can persist it anywhere
+export interface CacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string; // base64
+  varyHeaders: Record<string, string>;
+  requestTime: number;
+  responseTime: number;
+}
+
+/**
+ * Backing store for the HTTP cache. Methods may be async, so file or Redis
+ * adapters can implement it directly.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): unknown;
+  delete(key: string): unknown;
+}
+
+export interface CacheOptions {
+  store?: CacheStore;       // Defaults to an in-memory LRU
+  shared?: boolean;         // Act as a shared cache: honour s-maxage and private
+  maxEntrySize?: number;    // Bytes; larger bodies are not cached (default 10 MiB)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// How an attempt counts against its circuit; 'ignore' just frees a probe slot
+export type CircuitOutcome = 'success' | 'failure' | 'ignore';
+
+export interface CircuitStateChange {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;  // Failures within `window` that open the circuit (default 5)
+  window?: number;            // Rolling window in ms (default 10000)
+  resetTimeout?: number;      // Ms the circuit stays open before probing (default 30000)
+  halfOpenRequests?: number;  // Probe requests let through while half-open (default 1)
+  key?: (url: string) => string; // Circuit key for a URL (default: its origin)
+  isFailure?: (error: unknown, response?: Response) => boolean;
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * What a Request needs from a circuit breaker. The built-in CircuitBreaker
+ * implements it.
+ */
+export interface CircuitBreakerLike {
+  acquire(url: string): string; // Throws CircuitOpenError when the circuit is open
+  release(key: string, outcome: CircuitOutcome): void;
+  classify(error: unknown, response?: Response): CircuitOutcome;
+}
+
+export interface RateLimitOptions {
+  limit: number;        // Requests allowed per interval (token bucket capacity)
+  interval: number;     // Ms over which `limit` tokens refill
+  perOrigin?: boolean;  // One bucket per origin instead of one for the instance
+}
+
+/**
+ * What a Request needs from an instance's queue. acquire() resolves with a
+ * release function once the request may start, and rejects with the signal's
+ * reason if it aborts while waiting.
+ */
+export interface RequestQueueLike {
+  acquire(url: string, options: { priority: number; signal: AbortSignal }): Promise<() => void>;
+  observe(url: string, status: number, headers: Headers): void; // Adapts to rate limit headers
+}
+
+export interface ProxyOptions {
+  url?: string;                 // Default: HTTPS_PROXY or HTTP_PROXY, by the target's scheme
+  noProxy?: string | string[];  // Hosts reached directly (default: NO_PROXY)
+}
+
+export interface TlsOptions {
+  ca?: string | Buffer | Array<string | Buffer>;   // Replaces the bundled root certificates
+  cert?: string | Buffer | Array<string | Buffer>;  // Client certificate chain (PEM)
+  key?: string | Buffer | Array<string | Buffer>;
+  passphrase?: string;
+  rejectUnauthorized?: boolean; // Default true
+  servername?: string;          // SNI; defaults to the target host
+}
+
+export interface KeepAliveOptions {
+  timeout?: number;     // Ms an idle connection stays open when the server gives no Keep-Alive hint (default 4000)
+  maxTimeout?: number;  // Upper bound for a server's Keep-Alive hint (default 600000)
+  connections?: number; // Most connections per origin (default unlimited)
+}
+
+/**
+ * What a Request needs to route fetch through custom connections: the
+ * `dispatcher` passed to Node's fetch, created on first use.
+ */
+export interface DispatcherLike {
+  resolve(): Promise<NonNullable<RequestInit['dispatcher']>>;
+}
+
+export interface DedupeOptions {
+  methods?: string[];   // Methods that may share a fetch (default GET and HEAD)
+  headers?: string[];   // Request headers that must match (default: all of them)
+  // Custom key; requests with the same key share a fetch, undefined opts out
+  key?: (request: { method: string; url: string; headers: Record<string, string> }) => string | undefined;
+}
+
+/**
+ * What a Request needs to share identical in-flight fetches. The built-in
+ * RequestDeduper implements it. `partition` holds the cookie jar and auth
+ * provider, which add their headers after the key is taken; only requests
+ * with the same ones may share a fetch.
+ */
+export interface RequestDeduperLike {
+  fetch(
+    url: string,
+    init: RequestInit,
+    send: (init: RequestInit) => Promise<globalThis.Response>,
+    partition?: ReadonlyArray<object | null | undefined>
+  ): Promise<globalThis.Response>;
+}
+
+/**
+ * The outgoing request as an auth provider sees it: the final URL and
+ * headers, just before it is sent.
+ */
+export interface AuthRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>; // Lowercase names; set credentials here
+  body(): Promise<Uint8Array>;     // The exact bytes sent; buffers a streamed body
+}
+
+/**
+ * Adds credentials to requests. The built-in OAuth2Auth, DigestAuth and
+ * SigningAuth implement it.
+ */
+export interface AuthProviderLike {
+  authorize(request: AuthRequest): void | Promise<void>;
+  // Answers a 401; resolving true replays the request once, authorized again
+  challenge?(request: AuthRequest, response: globalThis.Response): boolean | Promise<boolean>;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  expiresAt?: number;     // Epoch ms
+  refreshToken?: string;
+  scope?: string;
+}
+
+export interface OAuth2Options {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string | string[];
+  refreshToken?: string;   // Use the refresh_token grant instead of client_credentials
+  token?: OAuth2Token;     // A token obtained earlier
+  clientAuthentication?: 'basic' | 'body'; // How client credentials are sent (default 'basic')
+  onToken?: (token: OAuth2Token) => void;  // Persist refreshed (and rotated) tokens
+  fetch?: typeof fetch;
+}
+
+export interface DigestOptions {
+  username: string;
+  password: string;
+}
+
+export type RequestSigner = (request: {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: Uint8Array;
+}) => void | Promise<void>;
+
+/**
+ * Response timings. `start` and `attemptStart` are epoch ms, the rest are
+ * durations in ms. Body fields stay undefined until a streamed body is read.
+ */
+export interface Timings {
+  start: number;                      // First attempt started
+  attemptStart: number;               // Final attempt started
+  responseHeaders: number;            // Final attempt start to response headers
+  bodyComplete: number | undefined;   // Final attempt start to end of body
+  retries: number;                    // Spent on failed attempts and retry waits
+  total: number | undefined;          // Start to end of body
+}
+
+// OpenTelemetry-style attributes, e.g. `http.request.method` or `url.full`
+export type Attributes = Record<string, string | number | boolean>;
+
+export interface RequestStartEvent {
+  request: Request;
+  attributes: Attributes;
+}
+
+export interface RequestAttemptEvent {
+  request: Request;
+  attempt: number;
+  attributes: Attributes;
+}
+
+export interface RequestResponseEvent {
+  request: Request;
+  response: Response;
+  timings: Timings | undefined;
+  attributes: Attributes;
+}
+
+export interface RequestErrorEvent {
+  request: Request;
+  error: Error;
+  attempt: number;
+  duration: number;   // Ms since the first attempt started
+  attributes: Attributes;
+}
+
+/**
+ * Lifecycle callbacks for metrics and logging. Exceptions thrown by an
+ * observer are ignored.
+ */
+export interface Observer {
+  onRequestStart?: (event: RequestStartEvent) => void;
+  onAttempt?: (event: RequestAttemptEvent) => void;
+  onResponse?: (event: RequestResponseEvent) => void;
+  onError?: (event: RequestErrorEvent) => void;
+}
+
+/**
+ * The parts of an OpenTelemetry Span used here, so an OTel tracer can be
+ * passed directly.
+ */
+export interface SpanLike {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number; traceState?: { serialize(): string } };
+  setAttributes(attributes: Attributes): unknown;
+  recordException?(exception: any): unknown;
+  setStatus?(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+export interface TracerLike {
+  startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): SpanLike;
+}
+
+export interface TracingOptions {
+  tracer?: TracerLike;  // Without one, trace IDs are generated and only propagated
+  // traceparent of the surrounding operation, e.g. the incoming server request
+  parent?: string | (() => string | undefined);
+  tracestate?: string | (() => string | undefined);
+}
+
+/**
+ * The Standard Schema v1 interface (standardschema.dev), implemented by Zod,
+ * Valibot, ArkType and others. Copied here so there is nothing to install.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+// A Standard Schema, or a function that returns the data or throws
+export type Validator<T> = StandardSchemaV1<any, T> | ((data: unknown) => T | Promise<T>);
+
+export interface ParserContext {
+  bytes: Uint8Array;               // The raw body, for binary formats
+  contentType: string;
+  response: globalThis.Response;
+  parseJson: (text: string) => any; // The request's JSON parser
+}
+
+export interface SerializerContext {
+  contentType: string;
+  stringifyJson: (data: any) => string; // The request's JSON serializer
+  stringifyQuery: (data: any) => string; // The request's query serializer
+}
+
+// Turns a response body into `res.body`; throwing raises ParseError
+export type Parser = (text: string, context: ParserContext) => unknown;
+// Turns a `send()` object into a fetch body
+export type Serializer = (data: any, context: SerializerContext) => string | NonNullable<RequestInit['body']>;
+
+// How `{ ids: [1, 2] }` is written: ids=1&ids=2, ids[]=1&ids[]=2, ids[0]=1&ids[1]=2 or ids=1,2
+export type ArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+
+export type ParamsSerializer = (params: Record<string, any>) => string;
+
+export type ContentEncoding = 'gzip' | 'deflate' | 'br' | 'zstd';
+
+export interface CompressionOptions {
+  encoding?: ContentEncoding; // Default 'gzip'
+  threshold?: number;         // Smaller bodies are sent as they are (default 1024 bytes)
+}
+
+export type ResponseType = 'json' | 'text' | 'arraybuffer' | 'blob';
+
 export interface ResponseHeaders {
   [key: string]: string;
 }
 
+export type PathParamValue = string | number | boolean | ReadonlyArray<string | number | boolean>;
+
+// A `:name` placeholder ends at the first `/`, `?`, `#`, `.` or `-`
+type TakeParamName<S extends string> =
+  S extends `${infer Name}/${string}` ? TakeParamName<Name> :
+  S extends `${infer Name}?${string}` ? TakeParamName<Name> :
+  S extends `${infer Name}#${string}` ? TakeParamName<Name> :
+  S extends `${infer Name}.${string}` ? TakeParamName<Name> :
+  S extends `${infer Name}-${string}` ? TakeParamName<Name> :
+  S;
+
+type BracedParamNames<T extends string> =
+  T extends `${string}{${infer Name}}${infer Rest}`
+    ? (Name extends `+${infer Reserved}` ? Reserved : Name) | BracedParamNames<Rest>
+    : never;
+
+type ColonParamNames<T extends string> =
+  T extends `${string}/:${infer Rest}` ? TakeParamName<Rest> | ColonParamNames<Rest> : never;
+
+/** Placeholder names in a URL template: `/orgs/:org/repos/{repo}` gives 'org' | 'repo' */
+export type PathParamNames<T extends string> = BracedParamNames<T> | ColonParamNames<T>;
+
+export type PathParams<T extends string> = string extends T
+  ? Record<string, PathParamValue>
+  : { [K in PathParamNames<T>]: PathParamValue };
+
 export interface RequestOptions {
   method?: string;
+  baseURL?: string; // Resolved when the request is sent, after path params
   headers?: Record<string, string>;
   body?: any;
   timeout?: number | TimeoutOptions;
@@ -51,14 +484,36 @@ export interface RequestOptions {
   throwHttpErrors?: boolean;
   parseJson?: (text: string) => any;
   stringifyJson?: (data: any) => string;
+  parsers?: Record<string, Parser>;         // By MIME type; `+json` and `text/*` keys match suffixes and wildcards
+  serializers?: Record<string, Serializer>;
+  arrayFormat?: ArrayFormat;                // Default 'repeat'
+  paramsSerializer?: ParamsSerializer;      // Replaces the built-in query serializer
   signal?: AbortSignal;
   credentials?: FetchCredentials;
   redirect?: FetchRedirect;
+  cookieJar?: CookieJarLike;
+  cache?: boolean | CacheOptions;
+  circuitBreaker?: boolean | CircuitBreakerOptions | CircuitBreakerLike;
+  queue?: RequestQueueLike;
+  dispatcher?: DispatcherLike;
+  dedupe?: boolean | DedupeOptions | RequestDeduperLike;
+  auth?: AuthProviderLike;
+  compressRequests?: boolean | ContentEncoding | CompressionOptions;
+  decompress?: boolean;     // Decode Content-Encoding; default only with a custom fetch, native fetch decodes itself
+  maxResponseSize?: number; // Bytes of decoded body before the request fails
+  observer?: Observer;
+  tracing?: boolean | TracingOptions; // Send W3C traceparent/tracestate headers
+  priority?: number; // Higher runs first when the instance queue is full (default 0)
   fetch?: typeof fetch;
 }
 
-export interface InstanceOptions extends RequestOptions {
-  baseURL?: string;
+export interface InstanceOptions extends Omit<RequestOptions, 'headers'> {
+  headers?: Record<string, string | undefined>; // Names are case-insensitive; undefined removes an inherited header
   prefixUrl?: string; // ky-style alias for baseURL
-  headers?: Record<string, string>;
+  concurrency?: number;         // Most requests in flight at once
+  rateLimit?: RateLimitOptions;
+  proxy?: boolean | string | ProxyOptions; // true: from HTTP(S)_PROXY and NO_PROXY
+  tls?: TlsOptions;
+  keepAlive?: boolean | KeepAliveOptions;  // false closes each connection after its request
+  plugins?: Plugin<any>[];      // Used on every request, in order
 }
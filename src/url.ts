@@ -0,0 +1,65 @@
+/**
+ * URL templates and base URL resolution
+ */
+
+import type { PathParamValue } from './types.js';
+
+// `{name}`, `{+name}` (RFC 6570 simple and reserved expansion) or a `/:name` segment
+const PLACEHOLDER_PATTERN = /\{(\+?)(\w+)\}|(?<=\/):([A-Za-z_]\w*)/g;
+// Everything but unreserved and reserved characters, and `%` not starting a pct-encoded triplet
+const NOT_RESERVED_PATTERN = /[^\w\-.~:/?#[\]@!$&'()*+,;=%]|%(?![\da-fA-F]{2})/gu;
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z\d+.-]*:/i;
+
+function encodeUnreserved(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeReserved(value: string): string {
+  return value.replace(NOT_RESERVED_PATTERN, char => encodeURIComponent(char));
+}
+
+/**
+ * Fills in `{name}` and `/:name` placeholders, percent-encoding values so
+ * they cannot change the URL's structure. `{+name}` keeps reserved characters
+ * such as `/`; arrays are joined with commas.
+ */
+export function expandTemplate(template: string, params: Record<string, PathParamValue>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, reserved: string, braced: string, colon: string) => {
+    const name = braced ?? colon;
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new TypeError(`Missing value for URL parameter "${name}" in ${template}`);
+    }
+    const encode = reserved ? encodeReserved : encodeUnreserved;
+    return (Array.isArray(value) ? value : [value]).map(item => encode(String(item))).join(',');
+  });
+}
+
+/**
+ * Resolves a request URL against `baseURL`. Absolute URLs are kept and
+ * protocol-relative ones take the base's scheme. Paths, with or without a
+ * leading slash, are appended to the base path (axios and ky behave the
+ * same) and query parameters of the base come first. A relative base such
+ * as `/api` is resolved against the page in a browser, and joined to the
+ * path as a string where there is no page.
+ */
+export function resolveUrl(url: string, baseURL: string | undefined): string {
+  if (!baseURL || ABSOLUTE_URL_PATTERN.test(url)) return url;
+
+  const page = (globalThis as { location?: { href?: string } }).location?.href;
+  if (!page && !ABSOLUTE_URL_PATTERN.test(baseURL)) {
+    if (url.startsWith('//')) return url;
+    return `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+  }
+
+  const base = new URL(baseURL, page);
+  if (url.startsWith('//')) return new URL(url, base).toString();
+
+  base.hash = '';
+  if (!base.pathname.endsWith('/')) base.pathname += '/';
+  const resolved = new URL(url.replace(/^\/+/, ''), base);
+  if (base.search && resolved.search !== base.search) {
+    resolved.search = resolved.search ? `${base.search}&${resolved.search.slice(1)}` : base.search;
+  }
+  return resolved.toString();
+}
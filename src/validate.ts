@@ -0,0 +1,31 @@
+/**
+ * Validation - Standard Schema validators and plain validator functions
+ */
+
+import type { StandardSchemaIssue, StandardSchemaResult, Validator } from './types.js';
+
+/**
+ * Runs either kind of validator. A validator function signals failure by
+ * throwing; its message becomes the single issue.
+ */
+export async function runValidator<T>(validator: Validator<T>, data: unknown): Promise<StandardSchemaResult<T>> {
+  if (typeof validator !== 'function') {
+    return validator['~standard'].validate(data);
+  }
+  try {
+    return { value: await validator(data) };
+  } catch (error) {
+    return { issues: [{ message: error instanceof Error ? error.message : String(error) }] };
+  }
+}
+
+export function formatIssues(issues: ReadonlyArray<StandardSchemaIssue>): string {
+  return issues
+    .map(issue => {
+      const path = (issue.path ?? [])
+        .map(segment => String(typeof segment === 'object' ? segment.key : segment))
+        .join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('; ');
+}
@@ -1,7 +1,25 @@
 import request, { HTTPError, TimeoutError } from './src/index.js';
+import { createMockFetch } from './src/mock.js';
 
 console.log('🧪 Testing superagent-lite...\n');
 
+// Serve the jsonplaceholder endpoints locally so the suite runs offline
+const API = 'https://jsonplaceholder.typicode.com';
+const post = { userId: 1, id: 1, title: 'sunt aut facere', body: 'quia et suscipit' };
+const mock = createMockFetch().install();
+
+mock.get(`${API}/posts/1`).reply(200, post).times(2);
+mock.get(`${API}/posts`).query({ userId: 1 }).reply(200, Array.from({ length: 10 }, (_, i) => ({ ...post, id: i + 1 })));
+mock.post(`${API}/posts`).matchBody({ title: 'Test', body: 'Content', userId: 1 }).reply(201, { id: 101 });
+mock.get(`${API}/users/1`).matchHeader('x-custom-header', 'test-value').reply(200, { id: 1, name: 'Leanne Graham' });
+mock.get(`${API}/users/2`).matchHeader('x-api-key', 'demo').reply(200, { id: 2, name: 'Ervin Howell' });
+mock.get(`${API}/posts/99999`).reply(404, {});
+mock.get(`${API}/posts`).delay(50).reply(200, []);
+mock.put(`${API}/posts/1`).reply(200, { ...post, title: 'Updated' });
+mock.patch(`${API}/posts/1`).reply(200, { ...post, title: 'Patched Title' });
+mock.delete(`${API}/posts/1`).reply(200, {});
+mock.post(`${API}/posts`).matchHeader('x-custom', 'value').reply(201, { id: 101, title: 'Chained request' });
+
 async function test() {
   // 1. Basic GET
   console.log('1. Testing GET request...');
@@ -109,7 +127,13 @@ async function test() {
   console.log(`   ✅ Status: ${res12.status}`);
   console.log(`   ✅ Content-Type: ${res12.type}`);
 
+  mock.assertDone();
+  mock.restore();
+
   console.log('\n✨ All tests passed!');
 }
 
-test().catch(console.error);
+test().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,261 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type http from 'node:http';
+import { createHash, createHmac } from 'node:crypto';
+import { gunzipSync } from 'node:zlib';
+import request, {
+  createInstance,
+  OAuth2Auth,
+  DigestAuth,
+  SigningAuth,
+  HTTPError,
+  AuthError,
+  parseChallenges,
+  type OAuth2Token
+} from '../src/index.js';
+import { listen, readBody } from './helpers.js';
+
+function md5(value: string | Buffer): string {
+  return createHash('md5').update(value).digest('hex');
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// ============================================================================
+// OAuth2
+// ============================================================================
+
+test('concurrent requests share one OAuth2 token request', async t => {
+  const tokenRequests: Array<{ authorization?: string; form: URLSearchParams }> = [];
+  const server = await listen(async (req, res) => {
+    if (req.url === '/token') {
+      tokenRequests.push({ authorization: req.headers.authorization, form: new URLSearchParams((await readBody(req)).toString()) });
+      // Slow enough for every caller to be waiting on it
+      setTimeout(() => sendJson(res, 200, { access_token: 'abc', token_type: 'bearer', expires_in: 3600 }), 30);
+      return;
+    }
+    sendJson(res, req.headers.authorization === 'Bearer abc' ? 200 : 401, { path: req.url });
+  });
+  t.after(() => server.close());
+
+  const tokens: OAuth2Token[] = [];
+  const api = createInstance({
+    baseURL: server.url,
+    auth: new OAuth2Auth({
+      tokenUrl: `${server.url}/token`,
+      clientId: 'client id',
+      clientSecret: 's3cret',
+      scope: ['read', 'write'],
+      onToken: token => tokens.push(token)
+    })
+  });
+
+  const responses = await Promise.all([api.get('/a'), api.get('/b'), api.get('/c')]);
+  assert.deepEqual(responses.map(response => response.body.path), ['/a', '/b', '/c']);
+  assert.equal(tokenRequests.length, 1);
+  assert.equal(tokenRequests[0].authorization, `Basic ${Buffer.from('client%20id:s3cret').toString('base64')}`);
+  assert.equal(tokenRequests[0].form.get('grant_type'), 'client_credentials');
+  assert.equal(tokenRequests[0].form.get('scope'), 'read write');
+  assert.equal(tokens.length, 1);
+  assert.equal(tokens[0].tokenType, 'Bearer');
+
+  // The cached token is reused
+  await api.get('/d');
+  assert.equal(tokenRequests.length, 1);
+});
+
+test('a 401 refreshes the OAuth2 token and replays the request once', async t => {
+  const grants: string[] = [];
+  const seen: string[] = [];
+  const server = await listen(async (req, res) => {
+    if (req.url === '/token') {
+      const form = new URLSearchParams((await readBody(req)).toString());
+      grants.push(`${form.get('grant_type')} ${form.get('refresh_token') ?? ''}`.trim());
+      sendJson(res, 200, { access_token: `token-${grants.length}`, refresh_token: `refresh-${grants.length}` });
+      return;
+    }
+    const body = (await readBody(req)).toString();
+    seen.push(`${req.headers.authorization} ${body}`);
+    // token-1 was revoked server-side; /always rejects every token
+    const valid = req.url !== '/always' && req.headers.authorization !== 'Bearer token-1';
+    sendJson(res, valid ? 200 : 401, { ok: valid });
+  });
+  t.after(() => server.close());
+
+  const api = createInstance({
+    baseURL: server.url,
+    auth: new OAuth2Auth({ tokenUrl: `${server.url}/token`, clientId: 'id', clientSecret: 'secret' })
+  });
+
+  const response = await api.post('/items').send({ name: 'Ada' });
+  assert.deepEqual(response.body, { ok: true });
+  assert.deepEqual(seen, ['Bearer token-1 {"name":"Ada"}', 'Bearer token-2 {"name":"Ada"}']);
+  assert.deepEqual(grants, ['client_credentials', 'refresh_token refresh-1']);
+
+  seen.length = 0;
+  await assert.rejects(api.get('/always'), (error: HTTPError) => error.status === 401);
+  assert.deepEqual(seen, ['Bearer token-2 ', 'Bearer token-3 ']);
+});
+
+test('a failed OAuth2 token request raises AuthError', async t => {
+  const server = await listen((_req, res) => sendJson(res, 400, { error: 'invalid_client', error_description: 'Unknown client' }));
+  t.after(() => server.close());
+
+  const auth = new OAuth2Auth({ tokenUrl: `${server.url}/token`, clientId: 'id', clientSecret: 'bad' });
+  await assert.rejects(
+    request.get(`${server.url}/items`).auth(auth),
+    (error: AuthError) => error instanceof AuthError && /Unknown client/.test(error.message)
+  );
+});
+
+// ============================================================================
+// Digest
+// ============================================================================
+
+interface DigestServerOptions {
+  qop?: 'auth' | 'auth-int';
+  // Marks a nonce stale after it has been used this many times
+  nonceUses?: number;
+}
+
+async function digestServer(options: DigestServerOptions = {}) {
+  const { qop = 'auth', nonceUses = Infinity } = options;
+  const realm = 'test@local';
+  const password = 'Circle of Life';
+  let nonce = 'n-1';
+  let uses = 0;
+  const log: string[] = [];
+
+  const server = await listen(async (req, res) => {
+    const body = await readBody(req);
+    const challenge = (stale: boolean) => {
+      res.writeHead(401, {
+        'www-authenticate': `Digest realm="${realm}", qop="${qop}", nonce="${nonce}", opaque="op", algorithm=MD5${stale ? ', stale=true' : ''}`
+      });
+      res.end();
+    };
+
+    const header = req.headers.authorization;
+    if (!header) {
+      log.push('challenge');
+      return challenge(false);
+    }
+    const params = parseChallenges(header)[0].params;
+    if (params.nonce !== nonce) {
+      log.push('stale');
+      return challenge(true);
+    }
+
+    const ha1 = md5(`${params.username}:${realm}:${password}`);
+    const ha2 = qop === 'auth-int' ? md5(`${req.method}:${params.uri}:${md5(body)}`) : md5(`${req.method}:${params.uri}`);
+    const expected = md5(`${ha1}:${nonce}:${params.nc}:${params.cnonce}:${params.qop}:${ha2}`);
+    const valid = params.response === expected && params.uri === req.url && params.opaque === 'op' && params.qop === qop;
+    log.push(valid ? `ok nc=${params.nc}` : 'denied');
+    if (!valid) return challenge(false);
+
+    if (++uses >= nonceUses) {
+      nonce = `n-${Number(nonce.slice(2)) + 1}`;
+      uses = 0;
+    }
+    sendJson(res, 200, { body: body.toString() });
+  });
+  return { ...server, log, password };
+}
+
+test('Digest answers the challenge and reuses it with a growing nonce count', async t => {
+  const server = await digestServer();
+  t.after(() => server.close());
+
+  const auth = new DigestAuth({ username: 'Mufasa', password: server.password });
+  const api = createInstance({ baseURL: server.url, auth });
+  await api.get('/dir/index.html').query({ q: 'a b' });
+  await api.get('/dir/index.html');
+  assert.deepEqual(server.log, ['challenge', 'ok nc=00000001', 'ok nc=00000002']);
+});
+
+test('Digest retries with the new nonce when the server marks it stale', async t => {
+  const server = await digestServer({ nonceUses: 1 });
+  t.after(() => server.close());
+
+  const api = createInstance({ baseURL: server.url, auth: new DigestAuth({ username: 'Mufasa', password: server.password }) });
+  await api.get('/first');
+  const response = await api.get('/second');
+  assert.equal(response.status, 200);
+  assert.deepEqual(server.log, ['challenge', 'ok nc=00000001', 'stale', 'ok nc=00000001']);
+});
+
+test('Digest with wrong credentials fails after one answer', async t => {
+  const server = await digestServer();
+  t.after(() => server.close());
+
+  const api = createInstance({ baseURL: server.url, auth: new DigestAuth({ username: 'Mufasa', password: 'wrong' }) });
+  await assert.rejects(api.get('/secret'), (error: HTTPError) => error.status === 401);
+  assert.deepEqual(server.log, ['challenge', 'denied']);
+});
+
+test('Digest auth-int hashes the body, including a streamed one', async t => {
+  const server = await digestServer({ qop: 'auth-int' });
+  t.after(() => server.close());
+
+  const api = createInstance({ baseURL: server.url, auth: new DigestAuth({ username: 'Mufasa', password: server.password }) });
+  const response = await api.post('/upload').send({ name: 'Ada' });
+  assert.deepEqual(response.body, { body: '{"name":"Ada"}' });
+
+  async function* chunks() {
+    yield 'streamed ';
+    yield 'body';
+  }
+  const streamed = await api.put('/upload').type('text/plain').send(chunks());
+  assert.deepEqual(streamed.body, { body: 'streamed body' });
+  assert.deepEqual(server.log, ['challenge', 'ok nc=00000001', 'ok nc=00000002']);
+});
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+test('a signer sees the final URL, headers and body bytes', async t => {
+  const key = 'signing-key';
+  const sign = (method: string, url: string, body: Buffer | Uint8Array) =>
+    createHmac('sha256', key).update(`${method}\n${url}\n`).update(body).digest('hex');
+
+  const received: Array<{ valid: boolean; body: string }> = [];
+  const server = await listen(async (req, res) => {
+    const body = await readBody(req);
+    const url = `${server.url}${req.url}`;
+    const valid = req.headers['x-signature'] === sign(req.method!, url, body) && req.headers['x-signed-type'] === (req.headers['content-type'] ?? '');
+    const text = req.headers['content-encoding'] === 'gzip' ? gunzipSync(body).toString() : body.toString();
+    received.push({ valid, body: text });
+    res.writeHead(valid ? 204 : 403);
+    res.end();
+  });
+  t.after(() => server.close());
+
+  const signer = new SigningAuth(({ method, url, headers, body }) => {
+    headers['x-signature'] = sign(method, url, body);
+    headers['x-signed-type'] = headers['content-type'] ?? '';
+  });
+  const api = createInstance({ baseURL: server.url, auth: signer });
+
+  await api.post('/items').query({ b: 2, a: 1 }).send({ name: 'Ada' });
+  await api.post('/items').compress('gzip').send({ big: 'x'.repeat(2000) });
+  await api.post('/form').type('form').send({ a: '1' });
+  async function* chunks() {
+    yield 'one,';
+    yield 'two';
+  }
+  await api.put('/stream').type('text/csv').send(chunks());
+  await api.get('/empty');
+
+  assert.deepEqual(received.map(entry => entry.valid), [true, true, true, true, true]);
+  assert.deepEqual(received.map(entry => entry.body), [
+    '{"name":"Ada"}',
+    JSON.stringify({ big: 'x'.repeat(2000) }),
+    'a=1',
+    'one,two',
+    ''
+  ]);
+});
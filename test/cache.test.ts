@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupMock } from './helpers.js';
+
+test('fresh responses are served from the cache', async () => {
+  const { mock, api } = setupMock({ cache: true });
+  mock.get('/catalog').reply(200, { items: [1] }, { 'cache-control': 'max-age=60' });
+
+  const first = await api.get('/catalog');
+  const second = await api.get('/catalog');
+  assert.equal(first.cacheStatus, 'miss');
+  assert.equal(second.cacheStatus, 'hit');
+  assert.equal(second.fromCache, true);
+  assert.deepEqual(second.body, { items: [1] });
+  assert.equal(mock.calls.length, 1);
+});
+
+test('stale entries revalidate with If-None-Match and reuse the body on 304', async () => {
+  const { mock, api } = setupMock({ cache: true });
+  mock.get('/catalog').reply(200, { version: 1 }, { 'cache-control': 'max-age=0', etag: '"v1"' });
+  mock.get('/catalog').matchHeader('if-none-match', '"v1"').reply(304, undefined, { etag: '"v1"' });
+
+  await api.get('/catalog');
+  const res = await api.get('/catalog');
+  assert.equal(res.cacheStatus, 'revalidated');
+  assert.equal(res.status, 200);
+  assert.deepEqual(res.body, { version: 1 });
+  mock.assertDone();
+});
+
+test('stale-if-error serves the stored response when the origin fails', async () => {
+  const { mock, api } = setupMock({ cache: true });
+  mock.get('/catalog').reply(200, { version: 1 }, { 'cache-control': 'max-age=0, stale-if-error=60' });
+  mock.get('/catalog').reply(503);
+  mock.get('/catalog').replyWithError('ECONNRESET');
+
+  await api.get('/catalog');
+  const afterError = await api.get('/catalog');
+  const afterNetworkError = await api.get('/catalog');
+  assert.equal(afterError.cacheStatus, 'stale');
+  assert.deepEqual(afterError.body, { version: 1 });
+  assert.equal(afterNetworkError.cacheStatus, 'stale');
+});
+
+test('no-store responses and unsafe methods are not served from the cache', async () => {
+  const { mock, api } = setupMock({ cache: true });
+  mock.get('/private').reply(200, {}, { 'cache-control': 'no-store' }).times(2);
+  mock.get('/catalog').reply(200, { version: 1 }, { 'cache-control': 'max-age=60' });
+  mock.post('/catalog').reply(201, {});
+  mock.get('/catalog').reply(200, { version: 2 }, { 'cache-control': 'max-age=60' });
+
+  await api.get('/private');
+  assert.equal((await api.get('/private')).cacheStatus, 'miss');
+
+  await api.get('/catalog');
+  await api.post('/catalog').send({});
+  const res = await api.get('/catalog');
+  assert.equal(res.cacheStatus, 'miss');
+  assert.deepEqual(res.body, { version: 2 });
+  mock.assertDone();
+});
+
+test('agents never share private responses through the cache', async () => {
+  const { mock, api } = setupMock({ cache: true });
+  mock.post('/login').reply(200, {}, { 'set-cookie': 'sid=alice' });
+  mock.post('/login').reply(200, {}, { 'set-cookie': 'sid=bob' });
+  mock.get('/me').persist().reply(request => ({
+    json: { cookie: request.headers['cookie'] ?? null },
+    headers: { 'cache-control': 'max-age=60' }
+  }));
+
+  const alice = api.agent();
+  const bob = api.agent();
+  await alice.post('/login');
+  await bob.post('/login');
+
+  assert.deepEqual((await alice.get('/me')).body, { cookie: 'sid=alice' });
+  const bobs = await bob.get('/me');
+  assert.deepEqual(bobs.body, { cookie: 'sid=bob' });
+  assert.equal(bobs.cacheStatus, 'miss');
+  const anonymous = await api.get('/me');
+  assert.deepEqual(anonymous.body, { cookie: null });
+  assert.equal(anonymous.cacheStatus, 'miss');
+});
+
+test('requests with Authorization only reuse public responses', async () => {
+  const { mock, api } = setupMock({ cache: true });
+  mock.get('/me').persist().reply(request => ({
+    json: { auth: request.headers['authorization'] },
+    headers: { 'cache-control': 'max-age=60' }
+  }));
+  mock.get('/logo').reply(200, 'png', { 'cache-control': 'public, max-age=60' });
+
+  await api.get('/me').auth('alice-token');
+  assert.deepEqual((await api.get('/me').auth('bob-token')).body, { auth: 'Bearer bob-token' });
+
+  await api.get('/logo').auth('alice-token');
+  assert.equal((await api.get('/logo').auth('bob-token')).cacheStatus, 'hit');
+});
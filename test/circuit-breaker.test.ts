@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CircuitBreaker, CircuitOpenError, HTTPError, type CircuitStateChange } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+test('the circuit opens after the failure threshold and fails fast', async () => {
+  const changes: CircuitStateChange[] = [];
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 60000, onStateChange: change => changes.push(change) });
+  const { mock, api } = setupMock({ circuitBreaker: breaker });
+  mock.get('/down').reply(503).persist();
+
+  await assert.rejects(api.get('/down'), HTTPError);
+  assert.equal(breaker.state('https://api.test/'), 'closed');
+  await assert.rejects(api.get('/down'), HTTPError);
+  assert.equal(breaker.state('https://api.test/'), 'open');
+  assert.deepEqual(changes, [{ key: 'https://api.test', from: 'closed', to: 'open' }]);
+
+  await assert.rejects(api.get('/down'), (error: CircuitOpenError) => {
+    assert.ok(error instanceof CircuitOpenError);
+    assert.equal(error.key, 'https://api.test');
+    assert.ok(error.retryAfter > 59000 && error.retryAfter <= 60000);
+    return true;
+  });
+  assert.equal(mock.calls.length, 2);
+});
+
+test('a successful half-open probe closes the circuit, a failed one reopens it', async () => {
+  const changes: string[] = [];
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 20 });
+  breaker.on('stateChange', ({ from, to }) => changes.push(`${from}->${to}`));
+  const { mock, api } = setupMock({ circuitBreaker: breaker });
+  mock.get('/flaky').reply(500).times(2);
+  mock.get('/flaky').reply(200, 'up');
+
+  await assert.rejects(api.get('/flaky'), HTTPError);
+  await sleep(30);
+  await assert.rejects(api.get('/flaky'), HTTPError);
+  await assert.rejects(api.get('/flaky'), CircuitOpenError);
+  await sleep(30);
+  assert.equal((await api.get('/flaky')).text, 'up');
+
+  assert.deepEqual(changes, ['closed->open', 'open->half-open', 'half-open->open', 'open->half-open', 'half-open->closed']);
+  assert.equal(mock.calls.length, 3);
+});
+
+test('only as many probes as halfOpenRequests get through', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10, halfOpenRequests: 1 });
+  const rejected: CircuitOpenError[] = [];
+  breaker.on('reject', error => rejected.push(error));
+  const { mock, api } = setupMock({ circuitBreaker: breaker });
+  mock.get('/slow').reply(500);
+  mock.get('/slow').reply(200).delay(30);
+
+  await assert.rejects(api.get('/slow'), HTTPError);
+  await sleep(20);
+  const [probe, second] = await Promise.allSettled([api.get('/slow'), api.get('/slow')]);
+  assert.equal(probe.status, 'fulfilled');
+  assert.ok(second.status === 'rejected' && second.reason instanceof CircuitOpenError);
+  assert.equal(rejected.length, 1);
+  assert.equal(breaker.state('https://api.test'), 'closed');
+});
+
+test('4xx responses do not count against the circuit and circuits are per origin', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1 });
+  const { mock, api } = setupMock({ circuitBreaker: breaker });
+  mock.get('/missing').reply(404).persist();
+  mock.get('https://other.test/down').reply(502);
+
+  await assert.rejects(api.get('/missing'), HTTPError);
+  await assert.rejects(api.get('/missing'), HTTPError);
+  assert.equal(breaker.state('https://api.test'), 'closed');
+
+  await assert.rejects(api.get('https://other.test/down'), HTTPError);
+  assert.equal(breaker.state('https://other.test'), 'open');
+  assert.equal(breaker.state('https://api.test'), 'closed');
+
+  breaker.reset('https://other.test');
+  assert.equal(breaker.state('https://other.test'), 'closed');
+});
+
+test('retries stop once the circuit opens', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 60000 });
+  const { mock, api } = setupMock({ circuitBreaker: breaker });
+  mock.get('/down').replyWithError('ECONNRESET').persist();
+
+  await assert.rejects(api.get('/down').retry({ limit: 5, delay: () => 0 }), CircuitOpenError);
+  assert.equal(mock.calls.length, 2);
+});
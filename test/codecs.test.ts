@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInstance, findCodec, ParseError, DEFAULT_PARSERS } from '../src/index.js';
+import { createMockFetch } from '../src/mock.js';
+import { setupMock } from './helpers.js';
+
+test('built-in parsers follow the Content-Type', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/problem').reply(200, '{"title":"x"}', { 'content-type': 'application/problem+json' });
+  mock.get('/form').reply(200, 'a=1&b=two', { 'content-type': 'application/x-www-form-urlencoded' });
+  mock.get('/ndjson').reply(200, '{"n":1}\n\n{"n":2}\n', { 'content-type': 'application/x-ndjson' });
+  mock.get('/png').reply(() => ({ status: 200, body: new Uint8Array([137, 80, 78, 71]), headers: { 'content-type': 'image/png' } }));
+  mock.get('/xml').reply(200, '<a/>', { 'content-type': 'application/xml' });
+
+  assert.deepEqual((await api.get('/problem')).body, { title: 'x' });
+  assert.deepEqual((await api.get('/form')).body, { a: '1', b: 'two' });
+  assert.deepEqual((await api.get('/ndjson')).body, [{ n: 1 }, { n: 2 }]);
+  const png = (await api.get('/png')).body;
+  assert.ok(png instanceof ArrayBuffer);
+  assert.deepEqual([...new Uint8Array(png)], [137, 80, 78, 71]);
+  assert.equal((await api.get('/xml')).body, '<a/>');
+});
+
+test('instance registries add codecs without touching other instances', async () => {
+  const { mock, api } = setupMock();
+  const other = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch });
+  api.parse['application/xml'] = text => ({ xml: text });
+  api.serialize['application/xml'] = data => `<name>${data.name}</name>`;
+  mock.get('/feed').reply(200, '<rss/>', { 'content-type': 'application/atom+xml' }).persist();
+  mock.post('/items').reply(201);
+
+  assert.deepEqual((await api.get('/feed')).body, { xml: '<rss/>' });
+  assert.equal((await other.get('/feed')).body, '<rss/>');
+
+  await api.post('/items').type('application/xml').send({ name: 'Ada' });
+  assert.equal(mock.calls[2].body, '<name>Ada</name>');
+  assert.equal(DEFAULT_PARSERS['application/xml'], undefined);
+});
+
+test('parse() and responseType() override the registry per request', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/packed')
+    .reply(() => ({ status: 200, body: new Uint8Array([1, 2, 3]), headers: { 'content-type': 'application/x-packed' } }))
+    .persist();
+  mock.get('/json-as-text').reply(200, { a: 1 }).persist();
+  mock.get('/untyped').reply(200, '{"a":1}', { 'content-type': 'text/plain' });
+
+  const sum = await api.get('/packed').parse((_text, { bytes }) => bytes.reduce((total, byte) => total + byte, 0));
+  assert.equal(sum.body, 6);
+  assert.equal((await api.get('/json-as-text').responseType('text')).body, '{"a":1}');
+  assert.deepEqual((await api.get('/untyped').responseType('json')).body, { a: 1 });
+
+  const blob = (await api.get('/packed').responseType('blob')).body as Blob;
+  assert.equal(blob.type, 'application/x-packed');
+  assert.equal(blob.size, 3);
+});
+
+test('serialize() and the JSON hooks override how bodies are written and read', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({
+    baseURL: 'https://api.test',
+    fetch: mock.fetch,
+    parseJson: text => JSON.parse(text, (key, value) => key === 'at' ? new Date(value) : value),
+    stringifyJson: data => JSON.stringify(data, null, 1)
+  });
+  mock.post('/events').reply(200, { at: '2024-01-02T00:00:00.000Z' }).persist();
+
+  const response = await api.post('/events').send({ n: 1 });
+  assert.ok(response.body.at instanceof Date);
+  assert.equal(mock.calls[0].body, '{\n "n": 1\n}');
+
+  await api.post('/events').serialize(data => `n=${data.n}`).send({ n: 2 });
+  assert.equal(mock.calls[1].body, 'n=2');
+  assert.equal(mock.calls[1].headers['content-type'], 'application/json');
+});
+
+test('a parser that throws raises ParseError with the text', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/broken').reply(200, 'oops', { 'content-type': 'application/json' });
+
+  await assert.rejects(api.get('/broken'), (error: ParseError) => {
+    assert.ok(error instanceof ParseError);
+    assert.equal(error.text, 'oops');
+    assert.equal(error.url, 'https://api.test/broken');
+    return true;
+  });
+});
+
+test('findCodec tries the exact type, the suffix, then the wildcard', () => {
+  const registry = { 'application/json': 'json', '+xml': 'xml', 'text/*': 'text', 'text/csv': 'csv' };
+  assert.equal(findCodec(registry, 'application/json; charset=utf-8'), 'json');
+  assert.equal(findCodec(registry, 'application/vnd.api+json'), 'json');
+  assert.equal(findCodec(registry, 'image/svg+xml'), 'xml');
+  assert.equal(findCodec(registry, 'TEXT/CSV'), 'csv');
+  assert.equal(findCodec(registry, 'text/html'), 'text');
+  assert.equal(findCodec(registry, 'application/pdf'), undefined);
+  assert.equal(findCodec(registry, ''), undefined);
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gzipSync, gunzipSync } from 'node:zlib';
+import { ResponseTooLargeError } from '../src/index.js';
+import { chunked, setupMock } from './helpers.js';
+
+test('compressRequests gzips bodies from the threshold up', async () => {
+  const { mock, api } = setupMock({ compressRequests: { threshold: 100 } });
+  mock.post('/events').reply(204).persist();
+
+  const batch = { events: 'x'.repeat(500) };
+  await api.post('/events').send(batch);
+  await api.post('/events').send({ small: true });
+  await api.post('/events').compress(false).send(batch);
+
+  const [large, small, optedOut] = mock.calls;
+  assert.equal(large.headers['content-encoding'], 'gzip');
+  assert.equal(large.headers['content-type'], 'application/json');
+  assert.deepEqual(JSON.parse(gunzipSync(large.bytes).toString()), batch);
+  assert.ok(large.bytes.byteLength < 100);
+  assert.equal(small.headers['content-encoding'], undefined);
+  assert.equal(small.body, '{"small":true}');
+  assert.equal(optedOut.headers['content-encoding'], undefined);
+});
+
+test('compress() ignores the threshold and always compresses streams', async () => {
+  const { mock, api } = setupMock();
+  mock.any(/.*/).reply(204).persist();
+
+  await api.post('/tiny').compress('gzip').send('hi');
+  await api.put('/upload').type('text/plain').compress('deflate').send(chunked('streamed ', 'body'));
+  await api.post('/encoded').set('Content-Encoding', 'br').compress('gzip').send('as is');
+
+  assert.equal(gunzipSync(mock.calls[0].bytes).toString(), 'hi');
+  assert.equal(mock.calls[1].headers['content-encoding'], 'deflate');
+  const inflated = new globalThis.Response(new Blob([mock.calls[1].bytes]).stream().pipeThrough(new DecompressionStream('deflate')));
+  assert.equal(await inflated.text(), 'streamed body');
+  assert.equal(mock.calls[2].headers['content-encoding'], 'br');
+  assert.equal(mock.calls[2].body, 'as is');
+});
+
+test('a gzip response from a custom fetch is decoded and sized', async () => {
+  const { mock, api } = setupMock();
+  const json = JSON.stringify({ items: Array.from({ length: 50 }, (_, id) => ({ id })) });
+  const gzipped = gzipSync(json);
+  mock.get('/items').reply(() => ({
+    status: 200,
+    body: gzipped,
+    headers: { 'content-type': 'application/json', 'content-encoding': 'gzip', 'content-length': String(gzipped.byteLength) }
+  }));
+
+  const response = await api.get('/items');
+  assert.equal(response.body.items.length, 50);
+  assert.equal(response.encodedBodySize, gzipped.byteLength);
+  assert.equal(response.decodedBodySize, Buffer.byteLength(json));
+});
+
+test('a body that is not actually encoded is passed through', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/plain').reply(200, { ok: true }, { 'content-encoding': 'gzip' });
+
+  const response = await api.get('/plain');
+  assert.deepEqual(response.body, { ok: true });
+});
+
+test('maxResponseSize rejects a declared length before reading', async () => {
+  const { mock, api } = setupMock({ maxResponseSize: 10 });
+  mock.get('/big').reply(() => ({ status: 200, body: 'x'.repeat(11), headers: { 'content-length': '11' } }));
+  mock.get('/fits').reply(() => ({ status: 200, body: 'x'.repeat(10), headers: { 'content-length': '10' } }));
+
+  await assert.rejects(api.get('/big'), (error: ResponseTooLargeError) => error instanceof ResponseTooLargeError && error.limit === 10);
+  assert.equal((await api.get('/fits')).text, 'x'.repeat(10));
+});
+
+test('maxResponseSize counts decoded bytes of streamed and compressed bodies', async () => {
+  const { mock, api } = setupMock({ maxResponseSize: 1000 });
+  mock.get('/stream').reply(() => ({ status: 200, body: chunked('x'.repeat(600), 'x'.repeat(600)) }));
+  const bomb = gzipSync(Buffer.alloc(100_000));
+  mock.get('/bomb').reply(() => ({ status: 200, body: bomb, headers: { 'content-encoding': 'gzip' } }));
+
+  await assert.rejects(api.get('/stream'), ResponseTooLargeError);
+  assert.ok(bomb.byteLength < 1000);
+  await assert.rejects(api.get('/bomb'), ResponseTooLargeError);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CookieJar } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+test('an agent sends cookies set by earlier responses', async () => {
+  const { mock, api } = setupMock({ baseURL: 'https://app.test' });
+  mock.post('/login').reply(200, {}, { 'set-cookie': 'sid=abc; Path=/; HttpOnly' });
+  mock.get('/me').matchHeader('cookie', 'sid=abc').reply(200, { user: 'alice' });
+
+  const agent = api.agent();
+  await agent.post('/login').send({ user: 'alice' });
+  const res = await agent.get('/me');
+  assert.deepEqual(res.body, { user: 'alice' });
+  mock.assertDone();
+});
+
+test('requests outside the agent do not share its cookies', async () => {
+  const { mock, api } = setupMock({ baseURL: 'https://app.test' });
+  mock.post('/login').reply(200, {}, { 'set-cookie': 'sid=abc' });
+  mock.get('/me').reply(200, {});
+
+  await api.agent().post('/login');
+  await api.get('/me');
+  assert.equal(mock.calls[1].headers['cookie'], undefined);
+});
+
+test('Set-Cookie on a redirect reaches the jar before the next hop', async () => {
+  const { mock, api } = setupMock({ baseURL: 'https://app.test' });
+  mock.post('/login').reply(303, undefined, { location: '/home', 'set-cookie': 'sid=xyz' });
+  mock.get('/home').matchHeader('cookie', 'sid=xyz').reply(200, { home: true });
+
+  const agent = api.agent();
+  const res = await agent.post('/login').send({ user: 'bob' });
+  assert.deepEqual(res.body, { home: true });
+  // 303 turns the POST into a bodiless GET
+  assert.equal(mock.calls[1].method, 'GET');
+  assert.equal(mock.calls[1].body, '');
+  assert.equal(mock.calls[1].headers['content-type'], undefined);
+  assert.deepEqual(agent.defaults.cookieJar!.getCookies('https://app.test/').map(cookie => cookie.value), ['xyz']);
+});
+
+test('cross-origin redirects drop Cookie and Authorization', async () => {
+  const { mock, api } = setupMock({ baseURL: 'https://app.test' });
+  mock.get('/out').reply(302, undefined, { location: 'https://other.test/landing' });
+  mock.get('https://other.test/landing').reply(200, {});
+
+  const agent = api.agent({ cookieJar: CookieJar.fromJSON(new CookieJar().toJSON()) });
+  agent.defaults.cookieJar!.setCookie('sid=abc', 'https://app.test/');
+  await agent.get('/out').auth('token');
+  assert.equal(mock.calls[0].headers['cookie'], 'sid=abc');
+  assert.equal(mock.calls[1].headers['cookie'], undefined);
+  assert.equal(mock.calls[1].headers['authorization'], undefined);
+});
+
+test('redirects(false) returns the redirect response itself', async () => {
+  const { mock, api } = setupMock({ baseURL: 'https://app.test' });
+  mock.get('/out').reply(302, undefined, { location: '/elsewhere' });
+
+  const res = await api.agent({ throwHttpErrors: false }).get('/out').redirects(false);
+  assert.equal(res.status, 302);
+  assert.equal(mock.calls.length, 1);
+});
+
+test('a cookie jar survives JSON serialization', () => {
+  const jar = new CookieJar();
+  jar.setCookie('sid=abc; Path=/; Max-Age=3600', 'https://app.test/');
+  jar.setCookie('theme=dark; Path=/settings', 'https://app.test/settings');
+
+  const restored = CookieJar.fromJSON(JSON.stringify(jar));
+  assert.equal(restored.getCookieString('https://app.test/settings/profile'), 'theme=dark; sid=abc');
+  assert.equal(restored.getCookieString('https://app.test/'), 'sid=abc');
+  assert.equal(restored.getCookieString('https://other.test/'), '');
+});
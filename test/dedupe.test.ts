@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { type AuthProviderLike } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+function bearer(token: string): AuthProviderLike {
+  return { authorize: request => { request.headers['authorization'] = `Bearer ${token}`; } };
+}
+
+test('identical overlapping GETs share one call and each get a body', async () => {
+  const { mock, api } = setupMock({ dedupe: true });
+  mock.get('/config').reply(200, { version: 3 }).delay(10).persist();
+
+  const [a, b] = await Promise.all([api.get('/config'), api.get('/config')]);
+  assert.deepEqual(a.body, { version: 3 });
+  assert.deepEqual(b.body, { version: 3 });
+  assert.equal(mock.calls.length, 1);
+
+  await Promise.all([api.get('/config').set('accept', 'text/plain'), api.get('/config').query({ v: 1 })]);
+  assert.equal(mock.calls.length, 3);
+});
+
+test('aborting one caller leaves the shared call to the others', async () => {
+  const { mock, api } = setupMock({ dedupe: true });
+  mock.get('/slow').reply(200, 'done').delay(20);
+
+  const first = api.get('/slow');
+  const results = Promise.allSettled([first, api.get('/slow')]);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  first.abort();
+
+  const [aborted, kept] = await results;
+  assert.equal(aborted.status, 'rejected');
+  assert.ok(kept.status === 'fulfilled' && kept.value.text === 'done');
+  assert.equal(mock.calls.length, 1);
+});
+
+test('agents and auth providers do not share responses', async () => {
+  const { mock, api } = setupMock({ dedupe: true });
+  mock.get('/me').reply(request => ({
+    status: 200,
+    json: { cookie: request.headers['cookie'] ?? null, authorization: request.headers['authorization'] ?? null }
+  })).delay(10).persist();
+
+  const alice = api.agent();
+  const bob = api.agent();
+  alice.defaults.cookieJar!.setCookie('session=alice', 'https://api.test/');
+  bob.defaults.cookieJar!.setCookie('session=bob', 'https://api.test/');
+  const [a, b] = await Promise.all([alice.get('/me'), bob.get('/me')]);
+  assert.equal(a.body.cookie, 'session=alice');
+  assert.equal(b.body.cookie, 'session=bob');
+  assert.notEqual(alice.defaults.dedupe, bob.defaults.dedupe);
+
+  const [one, two] = await Promise.all([
+    api.extend({ auth: bearer('one') }).get('/me'),
+    api.extend({ auth: bearer('two') }).get('/me')
+  ]);
+  assert.equal(one.body.authorization, 'Bearer one');
+  assert.equal(two.body.authorization, 'Bearer two');
+  assert.equal(mock.calls.length, 4);
+
+  // The same agent still shares
+  await Promise.all([alice.get('/me'), alice.get('/me')]);
+  assert.equal(mock.calls.length, 5);
+});
+
+test('streamed bodies get a fetch of their own', async () => {
+  const { mock, api } = setupMock({ dedupe: true });
+  mock.get('/feed').reply(200, 'one\ntwo\n').delay(10).persist();
+  mock.get('/events').reply(200, 'data: hi\n\n', { 'content-type': 'text/event-stream' }).delay(10).persist();
+
+  const collect = async () => {
+    const lines: string[] = [];
+    for await (const line of api.get('/feed').lines()) lines.push(line);
+    return lines;
+  };
+  const [a, b, c] = await Promise.all([collect(), collect(), api.get('/feed')]);
+  assert.deepEqual(a, ['one', 'two']);
+  assert.deepEqual(b, ['one', 'two']);
+  assert.equal(c.text, 'one\ntwo\n');
+  assert.equal(mock.calls.length, 3);
+
+  const first = async () => {
+    const source = api.sse('/events', { reconnect: false });
+    for await (const event of source) {
+      source.close();
+      return event.data;
+    }
+  };
+  assert.deepEqual(await Promise.all([first(), first()]), ['hi', 'hi']);
+  assert.equal(mock.calls.length, 5);
+});
@@ -0,0 +1,181 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { createInstance, NodeDispatcher, NetworkError, type InstanceOptions } from '../src/index.js';
+import { bypassesProxy } from '../src/dispatcher.js';
+import { listen, type TestServer } from './helpers.js';
+
+let cert: { key: Buffer; cert: Buffer };
+let secure: { url: string; close(): Promise<void> };
+let plain: TestServer;
+
+before(async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'dispatcher-test-'));
+  try {
+    execFileSync('openssl', [
+      'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1',
+      '-subj', '/CN=localhost',
+      '-addext', 'subjectAltName=DNS:localhost,IP:127.0.0.1',
+      '-keyout', join(dir, 'key.pem'),
+      '-out', join(dir, 'cert.pem')
+    ], { stdio: 'ignore', timeout: 30000 });
+    cert = { key: readFileSync(join(dir, 'key.pem')), cert: readFileSync(join(dir, 'cert.pem')) };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  const server = https.createServer(cert, (req, res) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ secure: true, path: req.url }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  secure = {
+    url: `https://localhost:${(server.address() as AddressInfo).port}`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+  plain = await listen((req, res) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ secure: false, path: req.url }));
+  });
+});
+
+after(async () => {
+  await secure.close();
+  await plain.close();
+});
+
+interface ProxyOptions {
+  // Answers CONNECT with this status instead of opening a tunnel
+  refuse?: number;
+}
+
+// A forward proxy that only tunnels, logging each CONNECT
+async function connectProxy(options: ProxyOptions = {}) {
+  const log: Array<{ authority: string; authorization?: string }> = [];
+  const sockets = new Set<net.Socket>();
+  const server = http.createServer((_req, res) => {
+    res.writeHead(405);
+    res.end();
+  });
+  server.on('connect', (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    log.push({ authority: req.url!, authorization: req.headers['proxy-authorization'] });
+    sockets.add(client);
+    if (options.refuse) {
+      client.end(`HTTP/1.1 ${options.refuse} Forbidden\r\n\r\n`);
+      return;
+    }
+    const [host, port] = [req.url!.slice(0, req.url!.lastIndexOf(':')), Number(req.url!.slice(req.url!.lastIndexOf(':') + 1))];
+    const upstream = net.connect({ host: host === 'localhost' ? '127.0.0.1' : host, port }, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length) upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    sockets.add(upstream);
+    upstream.on('error', () => client.destroy());
+    client.on('error', () => upstream.destroy());
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    log,
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+// An instance whose pool is closed when the test ends
+function instance(t: { after(fn: () => unknown): void }, options: InstanceOptions) {
+  const api = createInstance(options);
+  t.after(() => (api.defaults.dispatcher as NodeDispatcher).close());
+  return api;
+}
+
+test('tls.ca trusts a self-signed server that is otherwise rejected', async t => {
+  const trusted = instance(t, { baseURL: secure.url, tls: { ca: cert.cert } });
+  const response = await trusted.get('/hello');
+  assert.deepEqual(response.body, { secure: true, path: '/hello' });
+
+  const untrusted = instance(t, { baseURL: secure.url, keepAlive: false });
+  await assert.rejects(untrusted.get('/hello'), (error: NetworkError) =>
+    error instanceof NetworkError && /self[- ]signed/i.test(String((error.cause as Error)?.cause ?? error.message))
+  );
+});
+
+test('https and http targets go through a CONNECT tunnel with proxy credentials', async t => {
+  const proxy = await connectProxy();
+  t.after(() => proxy.close());
+  const proxyUrl = new URL(proxy.url);
+  proxyUrl.username = 'user';
+  proxyUrl.password = 'p@ss';
+
+  const api = instance(t, { proxy: proxyUrl.href, tls: { ca: cert.cert } });
+  assert.deepEqual((await api.get(`${secure.url}/a`)).body, { secure: true, path: '/a' });
+  assert.deepEqual((await api.get(`${plain.url}/b`)).body, { secure: false, path: '/b' });
+
+  const authorization = `Basic ${Buffer.from('user:p@ss').toString('base64')}`;
+  assert.deepEqual(proxy.log, [
+    { authority: new URL(secure.url).host, authorization },
+    { authority: new URL(plain.url).host, authorization }
+  ]);
+});
+
+test('noProxy hosts are fetched directly', async t => {
+  const proxy = await connectProxy();
+  t.after(() => proxy.close());
+
+  const api = instance(t, { proxy: { url: proxy.url, noProxy: ['localhost'] }, tls: { ca: cert.cert } });
+  await api.get(`${secure.url}/direct`);
+  await api.get(`${plain.url}/proxied`);
+  assert.deepEqual(proxy.log.map(entry => entry.authority), [new URL(plain.url).host]);
+});
+
+test('a proxy refusing CONNECT fails the request with its status', async t => {
+  const proxy = await connectProxy({ refuse: 403 });
+  t.after(() => proxy.close());
+
+  const api = instance(t, { proxy: proxy.url, keepAlive: false });
+  await assert.rejects(api.get(`${plain.url}/x`), (error: NetworkError) => {
+    assert.ok(error instanceof NetworkError);
+    const cause = (error.cause as Error).cause as Error;
+    assert.match(cause.message, /^Proxy 127\.0\.0\.1:\d+ refused CONNECT to 127\.0\.0\.1:\d+ with status 403$/);
+    return true;
+  });
+});
+
+test('a replaced global dispatcher is named in the error', async t => {
+  const key = Symbol.for('undici.globalDispatcher.1');
+  const global = globalThis as Record<symbol, unknown>;
+  const original = global[key];
+  class ProxyAgent {}
+  global[key] = new ProxyAgent();
+  t.after(() => { global[key] = original; });
+
+  await assert.rejects(new NodeDispatcher().resolve(), /global dispatcher was replaced by ProxyAgent/);
+});
+
+test('bypassesProxy matches hosts, subdomains and ports', () => {
+  const noProxy = ['.internal', 'example.com:8080', '*.corp.test', '[::1]', '10.0.0.1'];
+  assert.equal(bypassesProxy('api.internal', 443, noProxy), true);
+  assert.equal(bypassesProxy('internal', 443, noProxy), true);
+  assert.equal(bypassesProxy('notinternal', 443, noProxy), false);
+  assert.equal(bypassesProxy('example.com', 8080, noProxy), true);
+  assert.equal(bypassesProxy('example.com', 443, noProxy), false);
+  assert.equal(bypassesProxy('a.b.corp.test', 80, noProxy), true);
+  assert.equal(bypassesProxy('[::1]', 80, noProxy), true);
+  assert.equal(bypassesProxy('10.0.0.1', 80, noProxy), true);
+  assert.equal(bypassesProxy('10.0.0.10', 80, noProxy), false);
+  assert.equal(bypassesProxy('anything', 80, ['*']), true);
+});
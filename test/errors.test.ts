@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RequestError,
+  HTTPError,
+  NetworkError,
+  AbortError,
+  TimeoutError,
+  ParseError
+} from '../src/index.js';
+import { redactHeaders } from '../src/errors.js';
+import { setupMock } from './helpers.js';
+
+test('each failure raises its own RequestError subclass', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/http').reply(500, 'Internal   failure\nwhile saving');
+  mock.get('/network').replyWithError('ECONNREFUSED');
+  mock.get('/slow').reply(200).delay(200);
+  mock.get('/parse').reply(200, '{not json', { 'content-type': 'application/json' });
+  mock.get('/aborted').reply(200).delay(200);
+
+  await assert.rejects(api.get('/http'), (error: HTTPError) => {
+    assert.ok(error instanceof HTTPError && error instanceof RequestError);
+    assert.equal(error.status, 500);
+    assert.equal(error.response.text, 'Internal   failure\nwhile saving');
+    assert.match(error.message, /status 500: .* - Internal failure while saving$/);
+    return true;
+  });
+  await assert.rejects(api.get('/network'), (error: NetworkError) => {
+    assert.ok(error instanceof NetworkError);
+    assert.equal(error.code, 'ECONNREFUSED');
+    return true;
+  });
+  await assert.rejects(api.get('/slow').timeout(20), (error: TimeoutError) => {
+    assert.ok(error instanceof TimeoutError);
+    assert.equal(error.phase, 'request');
+    assert.equal(error.timeout, 20);
+    return true;
+  });
+  await assert.rejects(api.get('/parse'), (error: ParseError) => {
+    assert.ok(error instanceof ParseError);
+    assert.equal(error.text, '{not json');
+    return true;
+  });
+
+  const aborted = api.get('/aborted');
+  setTimeout(() => aborted.abort(), 5);
+  await assert.rejects(aborted, AbortError);
+});
+
+test('errors carry the method, URL, attempt and timings of the failed attempt', async () => {
+  const { mock, api } = setupMock();
+  mock.put('/items/1').reply(503).persist();
+
+  const before = Date.now();
+  await assert.rejects(api.put('/items/1').query({ v: 2 }).retry({ limit: 2, delay: () => 0 }), (error: HTTPError) => {
+    assert.equal(error.method, 'PUT');
+    assert.equal(error.url, 'https://api.test/items/1?v=2');
+    assert.equal(error.attempt, 3);
+    assert.ok(error.timings!.start >= before);
+    assert.equal(error.timings!.duration, error.timings!.end - error.timings!.start);
+    return true;
+  });
+});
+
+test('credential-bearing request headers are redacted on errors', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/private').reply(403);
+
+  await assert.rejects(
+    api.get('/private')
+      .set('Authorization', 'Bearer secret')
+      .set('X-Api-Key', 'k')
+      .set('Cookie', 'session=1')
+      .set('Accept', 'application/json'),
+    (error: HTTPError) => {
+      assert.equal(error.headers['authorization'], '[REDACTED]');
+      assert.doesNotMatch(JSON.stringify(error.headers), /secret|session=1|"k"/);
+      assert.equal(error.headers['accept'], 'application/json');
+      return true;
+    }
+  );
+
+  assert.deepEqual(
+    redactHeaders({ 'x-session-id': 's', 'proxy-authorization': 'p', 'set-cookie': 'c', 'x-request-id': 'r' }),
+    { 'x-session-id': '[REDACTED]', 'proxy-authorization': '[REDACTED]', 'set-cookie': '[REDACTED]', 'x-request-id': 'r' }
+  );
+});
+
+test('beforeError hooks see a decorated error and may replace it', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/fail').reply(500);
+  const seen: RequestError[] = [];
+
+  await assert.rejects(
+    api.get('/fail').hook('beforeError', error => {
+      seen.push(error);
+      return new RequestError(`wrapped: ${error.message}`);
+    }),
+    /^RequestError: wrapped: Request failed with status 500/
+  );
+  assert.equal(seen[0].url, 'https://api.test/fail');
+  assert.equal(seen[0].attempt, 1);
+});
+
+test('TimeoutError keeps the message-first constructor', () => {
+  const custom = new TimeoutError('Upstream took too long');
+  assert.equal(custom.message, 'Upstream took too long');
+  assert.equal(custom.phase, 'request');
+  assert.ok(custom instanceof RequestError);
+
+  const idle = new TimeoutError(undefined, { phase: 'idle', timeout: 50 });
+  assert.equal(idle.message, 'Request timed out (idle timeout of 50ms)');
+  assert.equal(idle.timeout, 50);
+});
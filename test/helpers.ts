@@ -0,0 +1,53 @@
+/**
+ * Shared helpers for the test suite
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createInstance, type InstanceOptions } from '../src/index.js';
+import { createMockFetch } from '../src/mock.js';
+
+export interface TestServer {
+  url: string;
+  server: http.Server;
+  close(): Promise<void>;
+}
+
+/** A mock fetch and an instance on https://api.test that sends through it */
+export function setupMock(options: InstanceOptions = {}) {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch, ...options });
+  return { mock, api };
+}
+
+/** Starts a local HTTP server on a free port */
+export async function listen(handler: http.RequestListener): Promise<TestServer> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    server,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+export async function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/** A stream of the given text chunks */
+export function chunked(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    }
+  });
+}
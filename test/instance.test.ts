@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeOptions, HTTPError } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+// A parent instance whose headers, retry and timeout children inherit
+function setup() {
+  const context = setupMock({
+    headers: { Authorization: 'Bearer parent', 'X-Debug': '1', Accept: 'application/json' },
+    retry: { limit: 2, statusCodes: [503] },
+    timeout: 5000
+  });
+  context.mock.any(/.*/).reply(200).persist();
+  return context;
+}
+
+test('extend() merges headers case-insensitively and undefined removes one', async () => {
+  const { mock, api } = setup();
+  const child = api.extend({ headers: { 'x-debug': undefined, AUTHORIZATION: 'Bearer child', 'x-tenant': 't1' } });
+
+  await child.get('/a');
+  await api.get('/b');
+  const [childHeaders, parentHeaders] = mock.calls.map(call => call.headers);
+  assert.equal(childHeaders['authorization'], 'Bearer child');
+  assert.equal(childHeaders['x-debug'], undefined);
+  assert.equal(childHeaders['x-tenant'], 't1');
+  assert.equal(childHeaders['accept'], 'application/json');
+  assert.equal(parentHeaders['authorization'], 'Bearer parent');
+  assert.equal(parentHeaders['x-debug'], '1');
+});
+
+test('retry and timeout merge field by field, other options replace', () => {
+  const { api } = setup();
+
+  const child = api.extend({ retry: { delay: () => 0 }, timeout: { deadline: 100 }, baseURL: 'https://other.test' });
+  const retry = child.defaults.retry;
+  assert.ok(typeof retry === 'object');
+  assert.equal(retry.limit, 2);
+  assert.deepEqual(retry.statusCodes, [503]);
+  assert.deepEqual(child.defaults.timeout, { request: 5000, deadline: 100 });
+  assert.equal(child.defaults.baseURL, 'https://other.test');
+
+  assert.deepEqual(mergeOptions({ retry: 3 }, { retry: { methods: ['POST'] } }).retry, { limit: 3, methods: ['POST'] });
+  assert.equal(mergeOptions({ retry: 3 }, { retry: undefined }).retry, undefined);
+  assert.equal(mergeOptions({ retry: 3 }, {}).retry, 3);
+});
+
+test('hooks from the parent run before the child’s', async () => {
+  const { api } = setup();
+  const order: string[] = [];
+  const parent = api.extend({ hooks: { beforeRequest: [() => { order.push('parent'); }] } });
+  const child = parent.extend({ hooks: { beforeRequest: [() => { order.push('child'); }] } });
+
+  await child.get('/a');
+  assert.deepEqual(order, ['parent', 'child']);
+});
+
+test('a function builds the options from the parent without merging', async () => {
+  const { mock, api } = setup();
+  const bare = api.extend(parent => ({ baseURL: parent.baseURL, fetch: parent.fetch }));
+
+  await bare.get('/a');
+  assert.equal(mock.calls[0].url, 'https://api.test/a');
+  assert.equal(mock.calls[0].headers['authorization'], undefined);
+  assert.equal(bare.defaults.retry, undefined);
+});
+
+test('ejected interceptors are skipped by requests created afterwards', async () => {
+  const { mock, api } = setup();
+  const id = api.interceptors.request.use(req => { req.set('x-request-id', 'r1'); });
+  const replaced = api.interceptors.response.use(undefined, error => new Error(`wrapped ${(error as HTTPError).status}`));
+  mock.reset();
+  mock.get('/ok').reply(200).persist();
+  mock.get('/missing').reply(404).persist();
+
+  const early = api.get('/ok');
+  api.interceptors.request.eject(id);
+  await early;
+  await api.get('/ok');
+  assert.equal(mock.calls[0].headers['x-request-id'], 'r1');
+  assert.equal(mock.calls[1].headers['x-request-id'], undefined);
+
+  await assert.rejects(api.get('/missing'), /^Error: wrapped 404$/);
+  api.interceptors.response.eject(replaced);
+  await assert.rejects(api.get('/missing'), HTTPError);
+  assert.equal(api.interceptors.request.size, 0);
+});
+
+test('interceptors are not copied by extend()', async () => {
+  const { mock, api } = setup();
+  api.interceptors.request.use(req => { req.set('x-parent', '1'); });
+
+  await api.extend({}).get('/a');
+  assert.equal(mock.calls[0].headers['x-parent'], undefined);
+});
+
+test('request interceptors can re-route the request and add query params', async () => {
+  const { mock, api } = setup();
+  api.interceptors.request.use(req => {
+    req.url = new URL(req.url).pathname === '/away' ? 'https://b.test/moved' : req.url.replace('/orig', '/moved');
+    req.query({ sig: 'x' });
+  });
+
+  await api.get('/orig').query({ page: 2 });
+  await api.get('/away');
+  assert.equal(mock.calls[0].url, 'https://api.test/moved?page=2&sig=x');
+  assert.equal(mock.calls[1].url, 'https://b.test/moved?sig=x');
+});
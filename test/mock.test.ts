@@ -0,0 +1,185 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import request, { createInstance, NetworkError } from '../src/index.js';
+import { createMockFetch, createRecorder } from '../src/mock.js';
+import { listen, readBody } from './helpers.js';
+
+test('interceptors match method, URL, query, headers and body', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch });
+  mock.get('/users?role=admin').reply(200, ['root']);
+  mock.get(/\/users\/\d+$/).reply(200, { id: 7 });
+  mock.post('/users').matchHeader('authorization', /^Bearer /).matchBody({ name: 'Ann' }).reply(201, { id: 8 });
+  mock.put('/users/8').matchBody(body => body.includes('Bob')).reply(200, 'updated');
+  mock.any(url => url.pathname === '/anything').reply(204);
+
+  assert.deepEqual((await api.get('/users').query({ role: 'admin' })).body, ['root']);
+  assert.deepEqual((await api.get('/users/7')).body, { id: 7 });
+  assert.equal((await api.post('/users').auth('t').send({ name: 'Ann' })).status, 201);
+  assert.equal((await api.put('/users/8').send({ name: 'Bob' })).text, 'updated');
+  assert.equal((await api.delete('/anything')).status, 204);
+  assert.equal(mock.calls.every(call => call.matched), true);
+  mock.assertDone();
+});
+
+test('unmatched requests reject and are recorded as unmatched', async () => {
+  const mock = createMockFetch();
+  mock.post('https://api.test/users').matchBody({ name: 'Ann' }).reply(201);
+
+  await assert.rejects(
+    createInstance({ fetch: mock.fetch }).post('https://api.test/users').send({ name: 'Eve' }),
+    /No mock matched POST https:\/\/api.test\/users/
+  );
+  assert.equal(mock.calls[0].matched, false);
+});
+
+test('times(), persist() and pendingMocks()', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch });
+  mock.get('/twice').reply(200, 'a').times(2);
+  mock.get('/always').reply(200, 'b').persist();
+  mock.get('/never').reply(200);
+
+  await api.get('/twice');
+  assert.deepEqual(mock.pendingMocks(), ['GET /twice', 'GET /always', 'GET /never']);
+  await api.get('/twice');
+  await api.get('/always');
+  await api.get('/always');
+  assert.deepEqual(mock.pendingMocks(), ['GET /never']);
+  assert.equal(mock.isDone(), false);
+  assert.throws(() => mock.assertDone(), /GET \/never/);
+  await assert.rejects(api.get('/twice'), /No mock matched/);
+});
+
+test('replyWithError() fails like a network error', async () => {
+  const mock = createMockFetch();
+  mock.get('https://api.test/down').replyWithError('ECONNREFUSED');
+  mock.get('https://api.test/custom').replyWithError(new TypeError('fetch failed', { cause: new Error('socket hang up') }));
+  const api = createInstance({ fetch: mock.fetch });
+
+  await assert.rejects(api.get('https://api.test/down'), (error: unknown) => {
+    assert.ok(error instanceof NetworkError);
+    assert.equal(error.code, 'ECONNREFUSED');
+    return true;
+  });
+  await assert.rejects(api.get('https://api.test/custom'), NetworkError);
+});
+
+test('delay() is cut short by the request timeout', async () => {
+  const mock = createMockFetch();
+  mock.get('https://api.test/slow').delay(1000).reply(200);
+
+  const started = Date.now();
+  await assert.rejects(createInstance({ fetch: mock.fetch }).get('https://api.test/slow').timeout(20), { name: 'TimeoutError' });
+  assert.ok(Date.now() - started < 500);
+});
+
+test('a failed fixture write rejects only the request that made it', async t => {
+  const server = await listen((req, res) => res.end(req.url));
+  const dir = await mkdtemp(join(tmpdir(), 'superagent-lite-'));
+  t.after(async () => {
+    await server.close();
+    await rm(dir, { recursive: true });
+  });
+  // A file where the fixture's directory should be makes the first save fail
+  const blocker = join(dir, 'fixtures');
+  await writeFile(blocker, '');
+  const fixture = join(blocker, 'fixture.json');
+
+  const recorder = createRecorder({ fixture, mode: 'record' });
+  const api = createInstance({ baseURL: server.url, fetch: recorder.fetch });
+  await assert.rejects(api.get('/first'));
+
+  await rm(blocker);
+  assert.equal((await api.get('/second')).text, '/second');
+  const saved = JSON.parse(await readFile(fixture, 'utf8'));
+  assert.deepEqual(saved.exchanges.map((exchange: { request: { url: string } }) => new URL(exchange.request.url).pathname), ['/first', '/second']);
+});
+
+test('an abort after the headers errors a body still being read', async () => {
+  const mock = createMockFetch();
+  const endless = new ReadableStream<Uint8Array>({ pull: () => new Promise(resolve => setTimeout(resolve, 50)) });
+  mock.get('https://api.test/stream').reply(() => ({ status: 200, body: endless }));
+
+  const controller = new AbortController();
+  const response = await mock.fetch('https://api.test/stream', { signal: controller.signal });
+  const reading = response.text();
+  controller.abort(new Error('gave up'));
+  await assert.rejects(reading, /gave up/);
+});
+
+test('install() replaces the global fetch until restore()', async () => {
+  const original = globalThis.fetch;
+  const mock = createMockFetch().install();
+  try {
+    mock.get('https://api.test/global').reply(200, { via: 'mock' });
+    assert.deepEqual((await request.get('https://api.test/global')).body, { via: 'mock' });
+  } finally {
+    mock.restore();
+  }
+  assert.equal(globalThis.fetch, original);
+});
+
+test('the fallback receives binary and compressed bodies unchanged', async t => {
+  const server = await listen(async (req, res) => {
+    const body = await readBody(req);
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ length: body.length, hex: body.toString('hex') }));
+  });
+  t.after(() => server.close());
+
+  const mock = createMockFetch({ fallback: globalThis.fetch });
+  const api = createInstance({ fetch: mock.fetch });
+  const bytes = new Uint8Array([0xff, 0xfe, 0x00, 0x80, 0x7f]);
+  assert.deepEqual((await api.post(`${server.url}/raw`).send(bytes)).body, { length: 5, hex: 'fffe00807f' });
+
+  const res = await api.post(`${server.url}/gzip`).compress('gzip').send('x'.repeat(2000));
+  assert.equal(Buffer.from(mock.calls[1].bytes).toString('hex'), res.body.hex);
+  assert.equal(gunzipSync(Buffer.from(res.body.hex, 'hex')).toString(), 'x'.repeat(2000));
+});
+
+test('record and replay round trip, including binary bodies', async t => {
+  let hits = 0;
+  const server = await listen(async (req, res) => {
+    hits++;
+    const body = await readBody(req);
+    if (req.url === '/image') {
+      res.setHeader('content-type', 'image/png');
+      res.end(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]));
+      return;
+    }
+    res.setHeader('content-type', 'application/json');
+    res.setHeader('set-cookie', 'sid=1');
+    res.end(JSON.stringify({ received: body.toString('hex') }));
+  });
+  const dir = await mkdtemp(join(tmpdir(), 'superagent-lite-'));
+  t.after(async () => {
+    await server.close();
+    await rm(dir, { recursive: true });
+  });
+  const fixture = join(dir, 'fixture.json');
+  const upload = new Uint8Array([1, 2, 0xff]);
+
+  const recorder = createRecorder({ fixture, mode: 'record' });
+  const recording = createInstance({ baseURL: server.url, fetch: recorder.fetch });
+  const recordedUpload = await recording.post('/upload').send(upload);
+  const recordedImage = await recording.get('/image').responseType('arraybuffer');
+  assert.equal(recordedUpload.body.received, '0102ff');
+  assert.equal(hits, 2);
+
+  const saved = JSON.parse(await readFile(fixture, 'utf8'));
+  assert.equal(saved.exchanges[0].request.encoding, 'base64');
+  assert.equal(saved.exchanges[1].response.encoding, 'base64');
+
+  const replayer = createRecorder({ fixture, mode: 'replay' });
+  const replaying = createInstance({ baseURL: server.url, fetch: replayer.fetch });
+  assert.deepEqual((await replaying.post('/upload').send(upload)).body, recordedUpload.body);
+  const image = await replaying.get('/image').responseType('arraybuffer');
+  assert.deepEqual(new Uint8Array(image.body), new Uint8Array(recordedImage.body));
+  assert.equal(hits, 2);
+  await assert.rejects(replaying.post('/upload').send(new Uint8Array([9])), /No recorded exchange/);
+});
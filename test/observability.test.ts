@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseTraceparent,
+  HTTPError,
+  type Attributes,
+  type SpanLike,
+  type Timings
+} from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+test('timings cover the response headers, body and retries', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/slow').reply(503);
+  mock.get('/slow').reply(200, 'ok').delay(20);
+
+  const before = Date.now();
+  const response = await api.get('/slow').retry({ limit: 1, delay: () => 15 });
+  const timings = response.timings!;
+
+  assert.ok(timings.start >= before && timings.attemptStart >= timings.start);
+  assert.ok(timings.responseHeaders >= 15, `responseHeaders ${timings.responseHeaders}`);
+  assert.ok(timings.retries >= 15, `retries ${timings.retries}`);
+  assert.equal(timings.retries, timings.attemptStart - timings.start);
+  assert.ok(timings.bodyComplete! >= timings.responseHeaders);
+  assert.equal(timings.total, timings.retries + timings.bodyComplete!);
+});
+
+test('a streamed body completes its timings once it is read', async () => {
+  let timings: Timings | undefined;
+  let bodyCompleteAtResponse: number | undefined = -1;
+  const { mock, api } = setupMock({
+    observer: {
+      onResponse: event => {
+        timings = event.timings;
+        bodyCompleteAtResponse = event.timings?.bodyComplete;
+      }
+    }
+  });
+  mock.get('/feed').reply(200, 'a\nb\n');
+
+  const lines: string[] = [];
+  for await (const line of api.get('/feed').lines()) lines.push(line);
+  assert.deepEqual(lines, ['a', 'b']);
+  assert.equal(bodyCompleteAtResponse, undefined);
+  assert.equal(typeof timings!.bodyComplete, 'number');
+  assert.equal(timings!.total, timings!.retries + timings!.bodyComplete!);
+});
+
+test('observer callbacks follow the request through retries', async () => {
+  const events: string[] = [];
+  const { mock, api } = setupMock({
+    observer: {
+      onRequestStart: ({ request, attributes }) => events.push(`start ${request.method} ${attributes['url.full']}`),
+      onAttempt: ({ attempt, attributes }) => events.push(`attempt ${attempt} ${attributes['http.request.resend_count'] ?? 0}`),
+      onResponse: ({ response, timings, attributes }) =>
+        events.push(`response ${response.status} ${attributes['http.response.status_code']} ${typeof timings?.total}`),
+      onError: ({ error, attempt, attributes }) => events.push(`error ${error.name} ${attempt} ${attributes['error.type']}`)
+    }
+  });
+  mock.get('/flaky').reply(500);
+  mock.get('/flaky').reply(200, 'ok');
+  mock.get('/gone').reply(410);
+
+  await api.get('/flaky').retry({ limit: 1, delay: () => 0 });
+  await assert.rejects(api.get('/gone'), HTTPError);
+
+  assert.deepEqual(events, [
+    'start GET https://api.test/flaky',
+    'attempt 1 0',
+    'attempt 2 1',
+    'response 200 200 number',
+    'start GET https://api.test/gone',
+    'attempt 1 0',
+    'error HTTPError 1 410'
+  ]);
+});
+
+test('a throwing observer does not fail the request', async () => {
+  const { mock, api } = setupMock({ observer: { onResponse: () => { throw new Error('broken metrics'); } } });
+  mock.get('/ok').reply(200, 'fine');
+  assert.equal((await api.get('/ok')).text, 'fine');
+});
+
+test('tracing sends a traceparent per attempt under one trace', async () => {
+  const { mock, api } = setupMock({ tracing: { parent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01', tracestate: 'vendor=1' } });
+  mock.get('/traced').reply(503);
+  mock.get('/traced').reply(200);
+
+  await api.get('/traced').retry({ limit: 1, delay: () => 0 });
+  const [first, second] = mock.calls.map(call => parseTraceparent(call.headers['traceparent'])!);
+  assert.equal(first.traceId, '0af7651916cd43dd8448eb211c80319c');
+  assert.equal(second.traceId, first.traceId);
+  assert.notEqual(second.spanId, first.spanId);
+  assert.notEqual(first.spanId, 'b7ad6b7169203331');
+  assert.equal(first.flags, '01');
+  assert.equal(mock.calls[0].headers['tracestate'], 'vendor=1');
+
+  assert.equal(parseTraceparent('00-xyz-b7ad6b7169203331-01'), undefined);
+});
+
+test('a tracer gets one client span per attempt with HTTP attributes', async () => {
+  const spans: Array<{ name: string; attributes: Attributes; status?: number; ended: boolean }> = [];
+  const tracer = {
+    startSpan(name: string, options?: { attributes?: Attributes }): SpanLike {
+      const record = { name, attributes: { ...options?.attributes }, status: undefined as number | undefined, ended: false };
+      spans.push(record);
+      const spanId = String(spans.length).padStart(16, '0');
+      return {
+        spanContext: () => ({ traceId: 'a'.repeat(32), spanId, traceFlags: 1 }),
+        setAttributes: (attributes: Attributes) => Object.assign(record.attributes, attributes),
+        setStatus: ({ code }) => { record.status = code; },
+        end: () => { record.ended = true; }
+      };
+    }
+  };
+  const { mock, api } = setupMock({ tracing: { tracer } });
+  mock.get('/items').reply(404);
+
+  await assert.rejects(api.get('/items'), HTTPError);
+  assert.equal(spans.length, 1);
+  assert.equal(spans[0].name, 'GET');
+  assert.equal(spans[0].attributes['http.response.status_code'], 404);
+  assert.equal(spans[0].status, 2);
+  assert.ok(spans[0].ended);
+  assert.equal(mock.calls[0].headers['traceparent'], `00-${'a'.repeat(32)}-0000000000000001-01`);
+});
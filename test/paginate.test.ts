@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLinkHeader } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+test('follows Link rel="next" and resolves relative targets', async () => {
+  const { mock, api } = setupMock({ headers: { 'x-api-key': 'k' } });
+  mock.get('/repos').reply(200, [1, 2], { link: '</repos?page=2>; rel="next", </repos?page=3>; rel="last"' });
+  mock.get('/repos?page=2').matchHeader('x-api-key', 'k').reply(200, [3], { link: '<https://api.test/repos?page=3>; rel="next"' });
+  mock.get('/repos?page=3').reply(200, [4]);
+
+  assert.deepEqual(await api.paginate<number>('/repos').all(), [1, 2, 3, 4]);
+  mock.assertDone();
+});
+
+test('countLimit stops mid-page without fetching further pages', async () => {
+  const { mock, api } = setupMock({ headers: { 'x-api-key': 'k' } });
+  mock.get('/items').reply(200, [1, 2, 3], { link: '</items?page=2>; rel="next"' });
+  mock.get('/items?page=2').reply(200, [4, 5, 6], { link: '</items?page=3>; rel="next"' });
+
+  assert.deepEqual(await api.paginate('/items', { countLimit: 4 }).all(), [1, 2, 3, 4]);
+  assert.equal(mock.calls.length, 2);
+});
+
+test('requestLimit caps the number of page requests', async () => {
+  const { mock, api } = setupMock({ headers: { 'x-api-key': 'k' } });
+  mock.get('/items').persist().reply(200, [0], { link: '</items>; rel="next"' });
+
+  assert.deepEqual(await api.paginate('/items', { requestLimit: 3 }).all(), [0, 0, 0]);
+  assert.equal(mock.calls.length, 3);
+});
+
+test('custom transform and cursor-based next', async () => {
+  const { mock, api } = setupMock({ headers: { 'x-api-key': 'k' } });
+  mock.get('/events').reply(200, { data: ['a', 'b'], cursor: 'c2' });
+  mock.get('/events?cursor=c2').reply(200, { data: ['c'], cursor: null });
+
+  const events = await api.get('/events').paginate<string>({
+    transform: res => res.body.data,
+    next: res => (res.body.cursor ? `/events?cursor=${res.body.cursor}` : false)
+  }).all();
+  assert.deepEqual(events, ['a', 'b', 'c']);
+});
+
+test('backoff waits between pages', async () => {
+  const { mock, api } = setupMock({ headers: { 'x-api-key': 'k' } });
+  mock.get('/items').reply(200, [1], { link: '</items?page=2>; rel="next"' });
+  mock.get('/items?page=2').reply(200, [2]);
+
+  const pages: number[] = [];
+  const started = Date.now();
+  await api.paginate('/items', { backoff: page => (pages.push(page), 30) }).all();
+  assert.deepEqual(pages, [2]);
+  assert.ok(Date.now() - started >= 25);
+});
+
+test('a non-array body without transform is a TypeError', async () => {
+  const { mock, api } = setupMock({ headers: { 'x-api-key': 'k' } });
+  mock.get('/items').reply(200, { items: [] });
+
+  await assert.rejects(api.paginate('/items').all(), TypeError);
+});
+
+test('parseLinkHeader handles several links and parameters', () => {
+  const links = parseLinkHeader('<https://a.test/2>; rel="next prefetch"; title="Page, 2", <https://a.test/9>; rel=last');
+  assert.deepEqual(links.map(link => [link.url, link.rel]), [
+    ['https://a.test/2', ['next', 'prefetch']],
+    ['https://a.test/9', ['last']]
+  ]);
+  assert.equal(links[0].params.title, 'Page, 2');
+});
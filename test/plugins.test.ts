@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Plugin, Request, Response } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+// superagent-prefix, as published
+function prefix(value: string) {
+  return (request: Request) => {
+    if (request.url[0] === '/') request.url = value + request.url;
+    return request;
+  };
+}
+
+interface TaggingMethods {
+  tagged(this: Request, tag: string): Request;
+}
+
+function setup(baseURL?: string) {
+  const context = setupMock({ baseURL });
+  context.mock.any(/.*/).reply(200).persist();
+  return context;
+}
+
+test('a superagent-prefix plugin rewrites the URL', async () => {
+  const { mock, api } = setup();
+
+  await api.get('/users').use(prefix('https://api.test/v2'));
+  await api.get('/users/:id').use(prefix('https://api.test/v2')).params({ id: 7 });
+  await api.get('/orgs/{org}').params({ org: 'a/:b' }).use(prefix('https://api.test'));
+  await api.get('https://other.test/x').use(prefix('https://api.test'));
+
+  assert.deepEqual(mock.calls.map(call => call.url), [
+    'https://api.test/v2/users',
+    'https://api.test/v2/users/7',
+    'https://api.test/orgs/a%2F%3Ab',
+    'https://other.test/x'
+  ]);
+});
+
+test('a beforeRequest hook can replace the URL', async () => {
+  const { mock, api } = setup();
+  const versioned: Plugin = {
+    hooks: {
+      beforeRequest: [req => { req.url = req.url.replace('https://api.test/', 'https://api.test/v2/'); }]
+    }
+  };
+
+  await api.get('https://api.test/users/:id').params({ id: 7 }).query({ full: true }).use(versioned);
+  await api.get('/users').hook('beforeRequest', req => { prefix('https://api.test/v3')(req); });
+  assert.deepEqual(mock.calls.map(call => call.url), [
+    'https://api.test/v2/users/7?full=true',
+    'https://api.test/v3/users'
+  ]);
+});
+
+test('the URL cannot be replaced once the request has started', async () => {
+  const request = setup().api.get('https://api.test/a');
+  await request;
+  assert.throws(() => { request.url = 'https://api.test/b'; }, /after the request has started/);
+});
+
+test('plugin objects add options, hooks and methods once per name', async () => {
+  const { mock, api: base } = setup('https://api.test');
+  const seen: number[] = [];
+  const tagging = {
+    name: 'tagging',
+    options: { headers: { 'x-client': 'web' } },
+    hooks: { afterResponse: [(response: Response) => { seen.push(response.status); }] },
+    methods: {
+      tagged(this: Request, tag: string) {
+        return this.set('x-tag', tag);
+      }
+    }
+  } satisfies Plugin<TaggingMethods>;
+  const copy = { ...tagging, options: { headers: { 'x-client': 'other' } } };
+
+  const api = base.use(tagging);
+  await api.get('/a').use(copy).tagged('x');
+
+  assert.equal(mock.calls[0].headers['x-client'], 'web');
+  assert.equal(mock.calls[0].headers['x-tag'], 'x');
+  assert.deepEqual(seen, [200]);
+  assert.throws(
+    () => api.get('/a').use({ methods: { send() { return this; } } }),
+    /would replace an existing Request member/
+  );
+});
+
+test('instance plugins run before the request’s own, in the order added', async () => {
+  const order: string[] = [];
+  const api = setup('https://api.test').api
+    .use(() => { order.push('first'); })
+    .use(() => { order.push('second'); });
+  const child = api.extend({ plugins: [() => { order.push('child'); }] });
+
+  await child.get('/a').use(() => { order.push('request'); });
+  assert.deepEqual(order, ['first', 'second', 'child', 'request']);
+});
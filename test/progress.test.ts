@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInstance, type ProgressEvent } from '../src/index.js';
+import { createMockFetch } from '../src/mock.js';
+import { listen, readBody, chunked } from './helpers.js';
+
+test('download progress counts bytes against Content-Length', async () => {
+  const mock = createMockFetch();
+  mock.get('https://api.test/file').reply(() => ({
+    body: chunked('12345', '67890'),
+    headers: { 'content-length': '10' }
+  }));
+  const events: ProgressEvent[] = [];
+  await createInstance({ fetch: mock.fetch })
+    .get('https://api.test/file')
+    .on('progress', event => events.push(event));
+
+  const downloads = events.filter(event => event.direction === 'download');
+  assert.deepEqual(downloads.map(event => event.loaded), [5, 10]);
+  assert.equal(downloads.at(-1)!.total, 10);
+  assert.equal(downloads.at(-1)!.percent, 100);
+});
+
+test('upload progress keeps Content-Length instead of chunked encoding', async t => {
+  const server = await listen(async (req, res) => {
+    const body = await readBody(req);
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({
+      length: req.headers['content-length'] ?? null,
+      chunked: req.headers['transfer-encoding'] === 'chunked',
+      body: body.toString()
+    }));
+  });
+  t.after(() => server.close());
+
+  const events: ProgressEvent[] = [];
+  const res = await createInstance()
+    .put(`${server.url}/upload`)
+    .send('hello world')
+    .on('progress', event => events.push(event));
+
+  assert.deepEqual(res.body, { length: '11', chunked: false, body: 'hello world' });
+  const uploads = events.filter(event => event.direction === 'upload');
+  assert.deepEqual(uploads[0], { direction: 'upload', loaded: 0, total: 11, percent: 0 });
+  assert.equal(uploads.at(-1)!.loaded, 11);
+});
+
+test('multipart uploads with progress keep their length and parse on the server', async t => {
+  const server = await listen(async (req, res) => {
+    const body = await readBody(req);
+    const form = await new Response(body, { headers: { 'content-type': req.headers['content-type']! } }).formData();
+    const file = form.get('file') as File;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({
+      length: Number(req.headers['content-length']),
+      received: body.length,
+      note: form.get('note'),
+      file: { name: file.name, type: file.type, text: await file.text() }
+    }));
+  });
+  t.after(() => server.close());
+
+  const events: ProgressEvent[] = [];
+  const res = await createInstance()
+    .post(`${server.url}/upload`)
+    .field('note', 'line one\nline two')
+    .attach('file', new Blob(['file contents'], { type: 'text/plain' }), 'a "quoted".txt')
+    .on('progress', event => events.push(event));
+
+  assert.equal(res.body.length, res.body.received);
+  assert.equal(res.body.note, 'line one\r\nline two');
+  assert.deepEqual(res.body.file, { name: 'a "quoted".txt', type: 'text/plain', text: 'file contents' });
+  assert.equal(events.filter(event => event.direction === 'upload').at(-1)!.loaded, res.body.length);
+});
+
+test('stream bodies report progress without a total', async () => {
+  const mock = createMockFetch();
+  mock.post('https://api.test/ingest').reply(204);
+  const events: ProgressEvent[] = [];
+  await createInstance({ fetch: mock.fetch })
+    .post('https://api.test/ingest')
+    .send(chunked('abc', 'de'))
+    .on('progress', event => events.push(event));
+
+  const uploads = events.filter(event => event.direction === 'upload');
+  assert.deepEqual(uploads.map(event => [event.loaded, event.total]), [[3, undefined], [5, undefined]]);
+});
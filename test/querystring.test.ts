@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toQueryPairs, stringifyQuery, type InstanceOptions } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+function setup(options: InstanceOptions = {}) {
+  const context = setupMock(options);
+  context.mock.any(/.*/).reply(200).persist();
+  return context;
+}
+
+// The query string as sent, decoded for readability
+function sentQuery(url: string): string {
+  return decodeURIComponent(new URL(url).search.slice(1));
+}
+
+test('each array format writes arrays its own way', () => {
+  const params = { ids: [1, 2], tag: ['a'] };
+  assert.equal(decodeURIComponent(stringifyQuery(toQueryPairs(params))), 'ids=1&ids=2&tag=a');
+  assert.equal(decodeURIComponent(stringifyQuery(toQueryPairs(params, 'brackets'))), 'ids[]=1&ids[]=2&tag[]=a');
+  assert.equal(decodeURIComponent(stringifyQuery(toQueryPairs(params, 'indices'))), 'ids[0]=1&ids[1]=2&tag[0]=a');
+  assert.equal(decodeURIComponent(stringifyQuery(toQueryPairs(params, 'comma'))), 'ids=1,2&tag=a');
+});
+
+test('nested objects, dates and empty values', () => {
+  const pairs = toQueryPairs({
+    filter: { status: 'open', owner: { id: 7 } },
+    since: new Date('2024-01-01T00:00:00.000Z'),
+    skip: undefined,
+    none: null,
+    empty: [],
+    rows: [{ id: 1 }, { id: 2 }]
+  }, 'comma');
+  assert.deepEqual(pairs, [
+    ['filter[status]', 'open'],
+    ['filter[owner][id]', '7'],
+    ['since', '2024-01-01T00:00:00.000Z'],
+    ['rows[0][id]', '1'],
+    ['rows[1][id]', '2']
+  ]);
+});
+
+test('query() calls replace earlier values for the keys they set', async () => {
+  const { mock, api } = setup();
+
+  await api.get('/items')
+    .query({ ids: [1, 2], page: 1 })
+    .query('tag=a&tag=b')
+    .query({ ids: [3], page: 2 });
+  assert.equal(sentQuery(mock.calls[0].url), 'tag=a&tag=b&ids=3&page=2');
+
+  await api.get('/items?fixed=1').query({ q: 'a b&c' });
+  assert.equal(new URL(mock.calls[1].url).search, '?fixed=1&q=a+b%26c');
+});
+
+test('arrayFormat can be set for an instance or a single call', async () => {
+  const { mock, api } = setup({ arrayFormat: 'brackets' });
+
+  await api.get('/items').query({ ids: [1, 2] });
+  await api.get('/items').query({ ids: [1, 2] }, { arrayFormat: 'comma' });
+  assert.equal(sentQuery(mock.calls[0].url), 'ids[]=1&ids[]=2');
+  assert.equal(sentQuery(mock.calls[1].url), 'ids=1,2');
+});
+
+test('sortQuery() orders by name and keeps repeated keys in order', async () => {
+  const { mock, api } = setup();
+
+  await api.get('/items').query('z=1&tag=b&a=2&tag=a').sortQuery();
+  await api.get('/items').query({ b: 1, a: 2, c: 3 }).sortQuery((x, y) => y.localeCompare(x));
+  assert.equal(sentQuery(mock.calls[0].url), 'a=2&tag=b&tag=a&z=1');
+  assert.equal(sentQuery(mock.calls[1].url), 'c=3&b=1&a=2');
+});
+
+test('paramsSerializer and urlencoded bodies use the same rules', async () => {
+  const custom = setup({ paramsSerializer: params => `custom=${Object.keys(params).join('-')}` });
+  await custom.api.get('/items').query({ a: 1, b: 2 });
+  assert.equal(sentQuery(custom.mock.calls[0].url), 'custom=a-b');
+
+  const { mock, api } = setup({ arrayFormat: 'indices' });
+  await api.post('/form').type('form').send({ ids: [1, 2], user: { name: 'Ada' } });
+  assert.equal(decodeURIComponent(mock.calls[0].body), 'ids[0]=1&ids[1]=2&user[name]=Ada');
+});
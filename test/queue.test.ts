@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { createInstance, parseRateLimit, RequestQueue, AbortError } from '../src/index.js';
+import { createMockFetch } from '../src/mock.js';
+
+test('concurrency caps requests in flight', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch, concurrency: 2 });
+  mock.get(/\/item\//).reply(200).delay(20).persist();
+
+  const requests = [1, 2, 3, 4, 5].map(id => api.get(`/item/${id}`).then(() => undefined));
+  await sleep(5);
+  assert.equal(api.queue!.active, 2);
+  assert.equal(api.queue!.pending, 3);
+  assert.equal(mock.calls.length, 2);
+
+  await Promise.all(requests);
+  assert.equal(api.queue!.active, 0);
+  assert.equal(mock.calls.length, 5);
+});
+
+test('higher priority requests leave the queue first', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch, concurrency: 1 });
+  mock.get(/.*/).reply(200).delay(10).persist();
+
+  await Promise.all([
+    api.get('/first'),
+    api.get('/low').priority(-1),
+    api.get('/normal'),
+    api.get('/high').priority(5),
+    api.get('/normal-2')
+  ]);
+  assert.deepEqual(mock.calls.map(call => new URL(call.url).pathname), ['/first', '/high', '/normal', '/normal-2', '/low']);
+});
+
+test('the rate limit spaces starts once the bucket is empty', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({
+    baseURL: 'https://api.test',
+    fetch: mock.fetch,
+    rateLimit: { limit: 2, interval: 100 }
+  });
+  mock.get('/tick').reply(200).persist();
+
+  const startedAt = Date.now();
+  const finished: number[] = [];
+  await Promise.all([1, 2, 3].map(() => api.get('/tick').then(() => finished.push(Date.now() - startedAt))));
+  finished.sort((a, b) => a - b);
+
+  // Two go at once; the third waits for a token, which refills every 50ms
+  assert.ok(finished[2] - finished[0] >= 40, `third request ${finished[2] - finished[0]}ms after the first`);
+});
+
+test('a request aborted while queued gives up its place', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch, concurrency: 1 });
+  mock.get(/.*/).reply(200).delay(20).persist();
+
+  const queued = api.get('/queued');
+  const results = Promise.allSettled([api.get('/first'), queued, api.get('/last')]);
+  await sleep(5);
+  queued.abort();
+
+  const [first, aborted, last] = await results;
+  assert.ok(aborted.status === 'rejected' && aborted.reason instanceof AbortError);
+  assert.equal(first.status, 'fulfilled');
+  assert.equal(last.status, 'fulfilled');
+  assert.deepEqual(mock.calls.map(call => new URL(call.url).pathname), ['/first', '/last']);
+});
+
+test('RateLimit and Retry-After responses hold back the origin', async () => {
+  const queue = new RequestQueue();
+  queue.observe('https://api.test/a', 429, new Headers({ 'retry-after': '1' }));
+
+  const controller = new AbortController();
+  const waiting = queue.acquire('https://api.test/b', { priority: 0, signal: controller.signal });
+  const release = await queue.acquire('https://other.test/c', { priority: 0, signal: controller.signal });
+  assert.equal(queue.pending, 1);
+  assert.equal(queue.active, 1);
+  release();
+
+  controller.abort();
+  await assert.rejects(waiting);
+  assert.equal(queue.pending, 0);
+});
+
+test('parseRateLimit reads split and combined headers', () => {
+  assert.deepEqual(
+    parseRateLimit(new Headers({ 'ratelimit-remaining': '4', 'ratelimit-reset': '30' })),
+    { remaining: 4, reset: 30000 }
+  );
+  assert.deepEqual(parseRateLimit(new Headers({ ratelimit: 'limit=10, remaining=0, reset=5' })), { remaining: 0, reset: 5000 });
+  assert.deepEqual(parseRateLimit(new Headers({ ratelimit: '"default";r=7;t=2' })), { remaining: 7, reset: 2000 });
+  assert.equal(parseRateLimit(new Headers({ 'ratelimit-remaining': '4' })), undefined);
+});
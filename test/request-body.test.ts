@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createInstance, HTTPError } from '../src/index.js';
+import { createMockFetch } from '../src/mock.js';
+import { listen, readBody, chunked } from './helpers.js';
+
+async function echoServer() {
+  return listen(async (req, res) => {
+    const body = await readBody(req);
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({
+      contentType: req.headers['content-type'] ?? null,
+      body: body.toString('base64')
+    }));
+  });
+}
+
+test('ReadableStream, Node Readable and async iterable bodies are streamed', async t => {
+  const server = await echoServer();
+  t.after(() => server.close());
+  const api = createInstance({ baseURL: server.url });
+
+  async function* generate() {
+    yield 'gen-';
+    yield new TextEncoder().encode('erated');
+  }
+  const bodies = [chunked('web-', 'stream'), Readable.from([Buffer.from('node-'), Buffer.from('readable')]), generate()];
+  const received = [];
+  for (const body of bodies) {
+    const res = await api.post('/upload').send(body);
+    received.push(Buffer.from(res.body.body, 'base64').toString());
+  }
+  assert.deepEqual(received, ['web-stream', 'node-readable', 'gen-erated']);
+});
+
+test('binary bodies arrive byte for byte', async t => {
+  const server = await echoServer();
+  t.after(() => server.close());
+
+  const bytes = new Uint8Array([0, 255, 128, 10, 13]);
+  const res = await createInstance().put(`${server.url}/blob`).send(bytes);
+  assert.deepEqual(new Uint8Array(Buffer.from(res.body.body, 'base64')), bytes);
+});
+
+test('attach() with a path streams the file with a guessed type', async t => {
+  const server = await echoServer();
+  const dir = await mkdtemp(join(tmpdir(), 'superagent-lite-'));
+  t.after(async () => {
+    await server.close();
+    await rm(dir, { recursive: true });
+  });
+  const path = join(dir, 'report.csv');
+  await writeFile(path, 'a,b\n1,2\n');
+
+  const res = await createInstance().post(`${server.url}/files`).attach('report', path);
+  const form = await new Response(Buffer.from(res.body.body, 'base64'), {
+    headers: { 'content-type': res.body.contentType }
+  }).formData();
+  const file = form.get('report') as File;
+  assert.equal(file.name, 'report.csv');
+  assert.equal(file.type, 'text/csv');
+  assert.equal(await file.text(), 'a,b\n1,2\n');
+});
+
+test('a stream body is not retried, but a stream factory is', async () => {
+  const mock = createMockFetch();
+  const api = createInstance({ baseURL: 'https://api.test', fetch: mock.fetch, retry: { limit: 2, methods: ['POST'], delay: () => 0 } });
+
+  mock.post('/once').reply(503).times(3);
+  await assert.rejects(api.post('/once').send(chunked('data')), HTTPError);
+  assert.equal(mock.calls.length, 1);
+
+  mock.reset();
+  mock.post('/factory').reply(503);
+  mock.post('/factory').reply(200, { ok: true });
+  const res = await api.post('/factory').send(() => chunked('data'));
+  assert.deepEqual(res.body, { ok: true });
+  assert.deepEqual(mock.calls.map(call => call.body), ['data', 'data']);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HTTPError } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+test('then, catch, finally and a second await share one network call', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/users').reply(200, [{ id: 1 }]).persist();
+
+  const request = api.get('/users');
+  const settled: string[] = [];
+  request.then(() => settled.push('then'));
+  request.catch(() => settled.push('catch'));
+  await request.finally(() => settled.push('finally'));
+  const again = await request;
+
+  assert.deepEqual(again.body, [{ id: 1 }]);
+  assert.deepEqual(settled.sort(), ['finally', 'then']);
+  assert.equal(mock.calls.length, 1);
+});
+
+test('a failed request rejects every consumer from the one call', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/missing').reply(404).persist();
+
+  const request = api.get('/missing');
+  const [first, second] = await Promise.allSettled([request, request.catch(error => { throw error; })]);
+  assert.ok(first.status === 'rejected' && first.reason instanceof HTTPError);
+  assert.ok(second.status === 'rejected' && second.reason === first.reason);
+  assert.equal(mock.calls.length, 1);
+});
+
+test('a started request cannot be changed or read as a stream', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/users').reply(200, 'ok');
+
+  const request = api.get('/users');
+  await request;
+  assert.throws(() => request.set('x-late', '1'), /after the request has started; use \.clone\(\)/);
+  assert.throws(() => request.query({ page: 2 }), /after the request has started/);
+  await assert.rejects(request.stream(), /already started as a buffered response/);
+});
+
+test('clone() sends an independent, changeable copy', async () => {
+  const { mock, api } = setupMock();
+  mock.post('/items').reply(req => ({ status: 201, json: { body: JSON.parse(req.body), query: new URL(req.url).search } })).persist();
+
+  const original = api.post('/items').query({ a: 1 }).send({ name: 'first' });
+  await original;
+  const copy = original.clone().query({ b: 2 }).send({ extra: true });
+  const response = await copy;
+
+  assert.deepEqual(response.body, { body: { name: 'first', extra: true }, query: '?a=1&b=2' });
+  assert.deepEqual(JSON.parse(mock.calls[0].body), { name: 'first' });
+  assert.equal(mock.calls.length, 2);
+});
+
+test('retryNow() sends the request again and awaits yield the new response', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/counter').reply(200, { n: 1 });
+  mock.get('/counter').reply(200, { n: 2 });
+
+  const request = api.get('/counter');
+  assert.deepEqual((await request).body, { n: 1 });
+  assert.deepEqual((await request.retryNow()).body, { n: 2 });
+  assert.deepEqual((await request).body, { n: 2 });
+  assert.equal(mock.calls.length, 2);
+});
+
+test('beforeRequest hooks can change the query, body and headers that are sent', async () => {
+  const { mock, api } = setupMock();
+  mock.post('/q').reply(200).persist();
+
+  await api.post('/q').query({ a: 1 }).send({ a: 1 }).hook('beforeRequest', req => {
+    req.query({ sig: 'x' }).send({ added: 1 }).set('x-hooked', '1');
+  });
+  await api.post('/q').send({ name: 'Ada' }).hook('beforeRequest', req => {
+    req.type('form');
+  });
+
+  assert.equal(mock.calls[0].url, 'https://api.test/q?a=1&sig=x');
+  assert.deepEqual(JSON.parse(mock.calls[0].body), { a: 1, added: 1 });
+  assert.equal(mock.calls[0].headers['x-hooked'], '1');
+  assert.equal(mock.calls[1].body, 'name=Ada');
+});
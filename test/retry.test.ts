@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HTTPError, NetworkError, type RetryContext } from '../src/index.js';
+import { applyJitter, computeRetryDelay, parseRetryAfter } from '../src/retry.js';
+import { setupMock } from './helpers.js';
+
+// Records each planned delay, then retries at once
+function recordDelays(delays: number[]) {
+  return (_error: Error, _retryCount: number, context: RetryContext) => {
+    delays.push(context.delay);
+    context.delay = 0;
+  };
+}
+
+test('failed attempts are retried up to the limit', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/flaky').reply(503).times(2);
+  mock.get('/flaky').reply(200, { ok: true });
+
+  const response = await api.get('/flaky').retry({ limit: 2, delay: () => 0 });
+  assert.deepEqual(response.body, { ok: true });
+  assert.equal(mock.calls.length, 3);
+
+  mock.reset();
+  mock.get('/down').reply(500).persist();
+  await assert.rejects(api.get('/down').retry({ limit: 2, delay: () => 0 }), HTTPError);
+  assert.equal(mock.calls.length, 3);
+});
+
+test('only listed methods, status codes and error codes are retried', async () => {
+  const { mock, api } = setupMock();
+  mock.post('/items').reply(503).persist();
+  mock.get('/missing').reply(404).persist();
+  mock.get('/reset').replyWithError('ECONNRESET');
+  mock.get('/reset').reply(200, 'back');
+  mock.get('/tls').replyWithError('CERT_HAS_EXPIRED').persist();
+  const retry = { limit: 2, delay: () => 0 };
+
+  await assert.rejects(api.post('/items').retry(retry), HTTPError);
+  await assert.rejects(api.get('/missing').retry(retry), HTTPError);
+  assert.equal(mock.calls.length, 2);
+
+  assert.equal((await api.get('/reset').retry(retry)).text, 'back');
+  assert.equal(mock.calls.length, 4);
+
+  await assert.rejects(api.get('/tls').retry(retry), (error: NetworkError) => error.code === 'CERT_HAS_EXPIRED');
+  assert.equal(mock.calls.length, 5);
+
+  mock.reset();
+  mock.post('/items').reply(503);
+  mock.post('/items').reply(201);
+  assert.equal((await api.post('/items').retry({ ...retry, methods: ['POST'] })).status, 201);
+});
+
+test('Retry-After in seconds or as a date sets the delay', async () => {
+  const { mock, api } = setupMock();
+  const delays: number[] = [];
+  mock.get('/limited').reply(429, '', { 'retry-after': '2' });
+  mock.get('/limited').reply(503, '', { 'retry-after': new Date(Date.now() + 60000).toUTCString() });
+  mock.get('/limited').reply(200);
+
+  await api.get('/limited').retry({ limit: 2, delay: () => 0 }).hook('beforeRetry', recordDelays(delays));
+  assert.equal(delays[0], 2000);
+  // HTTP dates have whole-second precision
+  assert.ok(delays[1] > 58000 && delays[1] <= 60000, `got ${delays[1]}`);
+
+  assert.equal(parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT', Date.parse('Wed, 21 Oct 2015 07:27:30 GMT')), 30000);
+  assert.equal(parseRetryAfter('in a bit'), undefined);
+});
+
+test('Retry-After longer than maxRetryAfter ends retrying, and can be ignored', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/limited').reply(429, '', { 'retry-after': '3600' }).persist();
+
+  await assert.rejects(api.get('/limited').retry({ limit: 3, maxRetryAfter: 60000 }), HTTPError);
+  assert.equal(mock.calls.length, 1);
+
+  const delays: number[] = [];
+  await assert.rejects(
+    api.get('/limited')
+      .retry({ limit: 1, respectRetryAfter: false, delay: () => 5 })
+      .hook('beforeRetry', recordDelays(delays)),
+    HTTPError
+  );
+  assert.deepEqual(delays, [5]);
+});
+
+test('jitter strategies stay within their bounds', (t) => {
+  t.mock.method(Math, 'random', () => 0.5);
+  assert.equal(applyJitter(1000, 'none', 0), 1000);
+  assert.equal(applyJitter(1000, 'full', 0), 500);
+  assert.equal(applyJitter(1000, 'equal', 0), 750);
+  // Grows from the previous sleep: between delay / 2 and 3 * previous
+  assert.equal(applyJitter(1000, 'decorrelated', 2000), 500 + 0.5 * 5500);
+  assert.equal(applyJitter(1000, (delay) => delay + 1, 0), 1001);
+
+  t.mock.method(Math, 'random', () => 0.999);
+  const capped = computeRetryDelay({ delay: () => 10000, jitter: 'full', backoffLimit: 2000 }, 1, new Error('x'), 0);
+  assert.equal(capped, 2000);
+});
+
+test('shouldRetry overrides the defaults and beforeRetry sees the context', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/auth').reply(401);
+  mock.get('/auth').reply(200, 'in');
+  const contexts: RetryContext[] = [];
+
+  const response = await api.get('/auth')
+    .retry({ limit: 2, delay: () => 0, shouldRetry: ({ response }) => response?.status === 401 ? true : undefined })
+    .hook('beforeRetry', (_error, _retryCount, context) => {
+      contexts.push(context);
+      context.headers['authorization'] = 'Bearer fresh';
+    });
+
+  assert.equal(response.text, 'in');
+  assert.equal(contexts.length, 1);
+  assert.equal(contexts[0].attempt, 1);
+  assert.equal(contexts[0].response?.status, 401);
+  assert.equal(mock.calls[1].headers['authorization'], 'Bearer fresh');
+
+  mock.reset();
+  mock.get('/flaky').reply(503).persist();
+  await assert.rejects(api.get('/flaky').retry({ limit: 3, delay: () => 0, shouldRetry: () => false }), HTTPError);
+  assert.equal(mock.calls.length, 1);
+});
+
+test('the retry deadline stops a retry that would wait past it', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/flaky').reply(503).persist();
+
+  await assert.rejects(api.get('/flaky').retry({ limit: 5, delay: () => 1000, deadline: 500 }), HTTPError);
+  assert.equal(mock.calls.length, 1);
+});
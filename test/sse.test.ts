@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventStreamParser, HTTPError, type ServerSentEvent } from '../src/index.js';
+import { chunked, setupMock } from './helpers.js';
+
+const SSE = { 'content-type': 'text/event-stream' };
+
+test('the parser handles multi-line data, event types, ids, comments and CRLF', () => {
+  const events: ServerSentEvent[] = [];
+  const retries: number[] = [];
+  const parser = new EventStreamParser(event => events.push(event), retry => retries.push(retry));
+  parser.feed(': comment\r\nevent: update\r\nid: 1\r\ndata: line one\r\ndata: line');
+  parser.feed(' two\r\n\r\nretry: 500\ndata: plain\n\nid\ndata: x\n\n');
+
+  assert.deepEqual(events.map(event => [event.event, event.id, event.data]), [
+    ['update', '1', 'line one\nline two'],
+    ['message', '1', 'plain'],
+    ['message', '', 'x']
+  ]);
+  assert.deepEqual(retries, [500]);
+});
+
+test('events are delivered through async iteration and listeners', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/feed').reply(() => ({ headers: SSE, body: chunked('data: a\n\n', 'event: ping\ndata: b\n\n') }));
+
+  const stream = api.sse('/feed', { reconnect: false });
+  const messages: string[] = [];
+  stream.on('message', event => messages.push(event.data));
+  const all: string[] = [];
+  for await (const event of stream) all.push(`${event.event}:${event.data}`);
+
+  assert.deepEqual(all, ['message:a', 'ping:b']);
+  assert.deepEqual(messages, ['a']);
+  assert.equal(mock.calls[0].headers['accept'], 'text/event-stream');
+});
+
+test('reconnects after the server retry delay and sends Last-Event-ID', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/feed').reply(() => ({ headers: SSE, body: chunked('retry: 10\nid: 41\ndata: first\n\n') }));
+  mock.get('/feed').matchHeader('last-event-id', '41').reply(() => ({ headers: SSE, body: chunked('id: 42\ndata: second\n\n') }));
+
+  const stream = api.sse('/feed');
+  const received: string[] = [];
+  for await (const event of stream) {
+    received.push(`${event.id}:${event.data}`);
+    if (received.length === 2) stream.close();
+  }
+  assert.deepEqual(received, ['41:first', '42:second']);
+  assert.equal(stream.lastEventId, '42');
+  mock.assertDone();
+});
+
+test('network failures reconnect; an HTTP error status ends the stream', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/feed').replyWithError('ECONNRESET');
+  mock.get('/feed').reply(() => ({ headers: SSE, body: chunked('data: back\n\n') }));
+  mock.get('/feed').reply(401, { error: 'expired' });
+
+  const stream = api.sse('/feed', { reconnectDelay: 5 });
+  const errors: unknown[] = [];
+  stream.on('error', error => errors.push(error));
+  const received: string[] = [];
+  await assert.rejects(async () => {
+    for await (const event of stream) received.push(event.data);
+  }, HTTPError);
+
+  assert.deepEqual(received, ['back']);
+  assert.equal(errors.length, 2);
+  assert.equal(stream.closed, true);
+});
+
+test('a wrong content type is fatal', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/feed').reply(200, { not: 'a stream' });
+
+  await assert.rejects(async () => {
+    for await (const _event of api.sse('/feed')) { /* drain */ }
+  }, /Expected content-type text\/event-stream/);
+  assert.equal(mock.calls.length, 1);
+});
+
+test('lastEventId option is sent on the first connection', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/feed').matchHeader('last-event-id', '7').reply(() => ({ headers: SSE, body: chunked('data: resumed\n\n') }));
+
+  const events = [];
+  for await (const event of api.sse('/feed', { lastEventId: '7', reconnect: false })) events.push(event);
+  assert.equal(events[0].id, '7');
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { HTTPError } from '../src/index.js';
+import { chunked, setupMock } from './helpers.js';
+
+test('stream() resolves with the unread body', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/export').reply(() => ({ body: chunked('a,b\n', '1,2\n') }));
+
+  const stream = await api.get('/export').stream();
+  assert.ok(stream instanceof ReadableStream);
+  assert.equal(await new Response(stream).text(), 'a,b\n1,2\n');
+});
+
+test('async iteration yields the body chunks', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/export').reply(() => ({ body: chunked('one', 'two') }));
+
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of api.get('/export')) {
+    assert.ok(chunk instanceof Uint8Array);
+    text += decoder.decode(chunk);
+  }
+  assert.equal(text, 'onetwo');
+});
+
+test('lines() splits across chunk boundaries and handles CRLF', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/logs').reply(() => ({ body: chunked('first\r\nsec', 'ond\nthird') }));
+
+  const lines: string[] = [];
+  for await (const line of api.get('/logs').lines()) lines.push(line);
+  assert.deepEqual(lines, ['first', 'second', 'third']);
+});
+
+test('ndjson() parses each line and skips blank ones', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/events').reply(() => ({ body: chunked('{"id":1}\n\n{"id"', ':2}\n') }));
+
+  const items: Array<{ id: number }> = [];
+  for await (const item of api.get('/events').ndjson<{ id: number }>()) items.push(item);
+  assert.deepEqual(items, [{ id: 1 }, { id: 2 }]);
+});
+
+test('ndjson() raises ParseError on an invalid line', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/events').reply(() => ({ body: chunked('{"id":1}\nnope\n') }));
+
+  await assert.rejects(async () => {
+    for await (const _item of api.get('/events').ndjson()) { /* drain */ }
+  }, { name: 'ParseError', text: 'nope' });
+});
+
+test('pipe() writes every chunk and ends the destination', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/file').reply(() => ({ body: chunked('hello ', 'world') }));
+
+  const destination = new PassThrough();
+  const collected: Buffer[] = [];
+  destination.on('data', chunk => collected.push(chunk));
+  const finished = new Promise(resolve => destination.on('end', resolve));
+  api.get('/file').pipe(destination);
+  await finished;
+  assert.equal(Buffer.concat(collected).toString(), 'hello world');
+});
+
+test('pipe() destroys the destination when the request fails', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/file').reply(500, 'boom');
+
+  const destination = new PassThrough();
+  const failed = new Promise<Error>(resolve => destination.on('error', resolve));
+  api.get('/file').pipe(destination);
+  assert.ok((await failed) instanceof HTTPError);
+});
+
+test('stream() still throws HTTPError with the error body', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/export').reply(503, { error: 'busy' });
+
+  await assert.rejects(api.get('/export').stream(), (error: unknown) => {
+    assert.ok(error instanceof HTTPError);
+    assert.equal(error.status, 503);
+    assert.deepEqual(error.response.body, { error: 'busy' });
+    return true;
+  });
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TimeoutError, AbortError } from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+// Text chunks sent `gap` ms apart
+function trickle(gap: number, ...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream({
+    async pull(controller) {
+      await new Promise(resolve => setTimeout(resolve, gap));
+      if (index < chunks.length) controller.enqueue(encoder.encode(chunks[index++]));
+      else controller.close();
+    }
+  });
+}
+
+function timedOut(phase: string, timeout: number) {
+  return (error: TimeoutError) => {
+    assert.ok(error instanceof TimeoutError, `got ${error}`);
+    assert.equal(error.phase, phase);
+    assert.equal(error.timeout, timeout);
+    return true;
+  };
+}
+
+test('the response timeout covers the wait for headers only', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/slow-headers').reply(200).delay(100);
+  mock.get('/slow-body').reply(() => ({ status: 200, body: trickle(20, 'a', 'b', 'c') }));
+
+  await assert.rejects(api.get('/slow-headers').timeout({ response: 20 }), timedOut('response', 20));
+  assert.equal((await api.get('/slow-body').timeout({ response: 30 })).text, 'abc');
+});
+
+test('the request timeout runs until the body is read', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/slow-body').reply(() => ({ status: 200, body: trickle(20, 'a', 'b', 'c', 'd') })).persist();
+
+  await assert.rejects(api.get('/slow-body').timeout(50), timedOut('request', 50));
+
+  const chunks: string[] = [];
+  await assert.rejects(async () => {
+    for await (const line of api.get('/slow-body').timeout(50).lines()) chunks.push(line);
+  }, timedOut('request', 50));
+});
+
+test('the idle timeout fires on a gap between chunks', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/steady').reply(() => ({ status: 200, body: trickle(10, 'a', 'b', 'c', 'd', 'e') }));
+  mock.get('/stalled').reply(() => ({ status: 200, body: trickle(60, 'a', 'b') }));
+
+  assert.equal((await api.get('/steady').timeout({ idle: 40 })).text, 'abcde');
+  await assert.rejects(api.get('/stalled').timeout({ idle: 30 }), timedOut('idle', 30));
+});
+
+test('the deadline spans attempts and retry waits', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/flaky').reply(503).delay(15).persist();
+
+  const started = Date.now();
+  await assert.rejects(
+    api.get('/flaky').timeout({ deadline: 60 }).retry({ limit: 10, delay: () => 15 }),
+    timedOut('deadline', 60)
+  );
+  assert.ok(Date.now() - started < 200);
+  assert.ok(mock.calls.length >= 2 && mock.calls.length < 10, `${mock.calls.length} calls`);
+});
+
+test('timeouts are retried like network failures', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/sometimes-slow').reply(200, 'late').delay(100);
+  mock.get('/sometimes-slow').reply(200, 'quick');
+
+  const response = await api.get('/sometimes-slow').timeout(20).retry({ limit: 1, delay: () => 0 });
+  assert.equal(response.text, 'quick');
+});
+
+test('abort() is not reported as a timeout', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/slow').reply(200).delay(100);
+
+  const request = api.get('/slow').timeout(50);
+  setTimeout(() => request.abort(), 10);
+  await assert.rejects(request, (error: Error) => error instanceof AbortError && !(error instanceof TimeoutError));
+});
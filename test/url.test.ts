@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInstance } from '../src/index.js';
+import { expandTemplate, resolveUrl } from '../src/url.js';
+import { setupMock } from './helpers.js';
+
+function setup(baseURL = 'https://api.test') {
+  const context = setupMock({ baseURL });
+  context.mock.any(/.*/).reply(200).persist();
+  return context;
+}
+
+test('placeholders are percent-encoded so values stay in their segment', () => {
+  assert.equal(expandTemplate('/orgs/:org/repos/{repo}', { org: 'acme', repo: 'a/b c' }), '/orgs/acme/repos/a%2Fb%20c');
+  assert.equal(expandTemplate('/q/{term}', { term: "it's (100%)!*" }), '/q/it%27s%20%28100%25%29%21%2A');
+  assert.equal(expandTemplate('/files/{+path}', { path: 'docs/guide v2.md' }), '/files/docs/guide%20v2.md');
+  assert.equal(expandTemplate('/files/{+path}', { path: 'a%2Fb/100%' }), '/files/a%2Fb/100%25');
+  assert.equal(expandTemplate('/users/{ids}', { ids: [1, 'x y'] }), '/users/1,x%20y');
+  assert.equal(expandTemplate('/v1/things:batchGet/:id', { id: 0 }), '/v1/things:batchGet/0');
+  assert.equal(expandTemplate('https://host:8080/:id', { id: 7 }), 'https://host:8080/7');
+});
+
+test('a missing param fails the request before it is sent', async () => {
+  const { mock, api } = setup();
+
+  assert.throws(() => expandTemplate('/orgs/:org', {}), /Missing value for URL parameter "org" in \/orgs\/:org/);
+  await assert.rejects(
+    api.get('/orgs/:org/repos/{repo}').params({ org: 'acme', repo: null as unknown as string }),
+    (error: TypeError) => error instanceof TypeError && /"repo"/.test(error.message)
+  );
+  assert.equal(mock.calls.length, 0);
+});
+
+test('params() fills in the URL that is sent', async () => {
+  const { mock, api } = setup();
+
+  await api.get('/orgs/:org/repos/{repo}').params({ org: 'acme', repo: 'a/b' }).query({ page: 2 });
+  assert.equal(mock.calls[0].url, 'https://api.test/orgs/acme/repos/a%2Fb?page=2');
+});
+
+test('paths are appended to the base path, with or without a slash', async () => {
+  const { mock, api } = setup('https://api.test/v1');
+
+  await api.get('/users');
+  await api.get('users/1');
+  await api.get('https://other.test/x');
+  assert.deepEqual(mock.calls.map(call => call.url), [
+    'https://api.test/v1/users',
+    'https://api.test/v1/users/1',
+    'https://other.test/x'
+  ]);
+});
+
+test('resolveUrl keeps base queries first and takes the base scheme for //host', () => {
+  assert.equal(resolveUrl('items?page=2', 'https://api.test/v1/?key=k'), 'https://api.test/v1/items?key=k&page=2');
+  assert.equal(resolveUrl('items', 'https://api.test/v1?key=k#top'), 'https://api.test/v1/items?key=k');
+  assert.equal(resolveUrl('//cdn.test/a.js', 'http://api.test/v1'), 'http://cdn.test/a.js');
+  assert.equal(resolveUrl('/x', undefined), '/x');
+  assert.equal(resolveUrl('mailto:a@b.test', 'https://api.test'), 'mailto:a@b.test');
+});
+
+test('a relative baseURL is joined without a page and resolved against one', async t => {
+  assert.equal(resolveUrl('/users', '/api'), '/api/users');
+  assert.equal(resolveUrl('users?page=2', '/api/'), '/api/users?page=2');
+  assert.equal(resolveUrl('//cdn.test/a.js', '/api'), '//cdn.test/a.js');
+
+  const sent: string[] = [];
+  const api = createInstance({
+    baseURL: '/api',
+    fetch: async input => {
+      sent.push(String(input));
+      return new Response('ok');
+    }
+  });
+  await api.get('/users');
+  assert.deepEqual(sent, ['/api/users']);
+
+  const global = globalThis as { location?: { href: string } };
+  global.location = { href: 'https://app.test/dashboard/' };
+  t.after(() => { delete global.location; });
+  assert.equal(resolveUrl('/users', '/api'), 'https://app.test/api/users');
+  assert.equal(resolveUrl('users', 'v1'), 'https://app.test/dashboard/v1/users');
+});
+
+test('without params() a URL is sent as written', async () => {
+  const { mock, api } = setup();
+
+  await api.get('/v1/things:batchGet/:literal');
+  await assert.rejects(api.get('/orgs/:org/repos/{repo}').params({ org: 'acme' }), /"repo"/);
+  assert.deepEqual(mock.calls.map(call => call.url), ['https://api.test/v1/things:batchGet/:literal']);
+});
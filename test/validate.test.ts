@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ResponseValidationError,
+  RequestValidationError,
+  type StandardSchemaV1
+} from '../src/index.js';
+import { setupMock } from './helpers.js';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+// A minimal Standard Schema: an object with a numeric id and a string name, trimmed
+const UserSchema: StandardSchemaV1<unknown, User> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => {
+      const user = value as Record<string, unknown>;
+      const issues = [];
+      if (typeof user?.id !== 'number') issues.push({ message: 'Expected a number', path: ['id'] });
+      if (typeof user?.name !== 'string') issues.push({ message: 'Expected a string', path: [{ key: 'name' }] });
+      return issues.length > 0 ? { issues } : { value: { id: user.id as number, name: (user.name as string).trim() } };
+    }
+  }
+};
+
+const AsyncSchema: StandardSchemaV1<unknown, string> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: async value => typeof value === 'string' ? { value: value.toUpperCase() } : { issues: [{ message: 'Not text' }] }
+  }
+};
+
+test('validate() checks the body and keeps the transformed value', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/users/1').reply(200, { id: 1, name: '  Ada ', extra: true });
+  mock.get('/users/1/name').reply(200, 'ada');
+
+  const response = await api.get('/users/1').validate(UserSchema);
+  assert.deepEqual(response.body, { id: 1, name: 'Ada' });
+  assert.equal((await api.get('/users/1/name').validate(AsyncSchema)).body, 'ADA');
+});
+
+test('a failed response check raises ResponseValidationError with the issues', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/users/2').reply(200, { id: '2' });
+
+  await assert.rejects(api.get('/users/2').validate(UserSchema), (error: ResponseValidationError) => {
+    assert.ok(error instanceof ResponseValidationError);
+    assert.equal(error.message, 'Response validation failed: id: Expected a number; name: Expected a string');
+    assert.equal(error.issues.length, 2);
+    assert.deepEqual(error.response.body, { id: '2' });
+    assert.equal(error.url, 'https://api.test/users/2');
+    return true;
+  });
+});
+
+test('json(schema) returns the validated body', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/users/3').reply(200, { id: 3, name: 'Grace' });
+  mock.get('/users/4').reply(200, { id: 4 });
+
+  assert.deepEqual(await api.get('/users/3').json(UserSchema), { id: 3, name: 'Grace' });
+  await assert.rejects(api.get('/users/4').json(UserSchema), ResponseValidationError);
+});
+
+test('a validator function returns the data or throws a single issue', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/count').reply(200, { count: 5 }).persist();
+
+  const positive = (data: any) => {
+    if (data.count < 10) throw new Error('count must be at least 10');
+    return data.count as number;
+  };
+  await assert.rejects(api.get('/count').validate(positive), (error: ResponseValidationError) => {
+    assert.deepEqual(error.issues, [{ message: 'count must be at least 10' }]);
+    return true;
+  });
+  assert.equal((await api.get('/count').validate((data: any) => data.count * 2)).body, 10);
+});
+
+test('send() with a schema validates the body before anything is sent', async () => {
+  const { mock, api } = setupMock();
+  mock.post('/users').reply(201).persist();
+
+  await assert.rejects(api.post('/users').send({ name: 'Ada' }, UserSchema), (error: RequestValidationError) => {
+    assert.ok(error instanceof RequestValidationError);
+    assert.equal(error.message, 'Request body validation failed: id: Expected a number');
+    assert.equal(error.method, 'POST');
+    return true;
+  });
+  assert.equal(mock.calls.length, 0);
+
+  await api.post('/users').send({ id: 1, name: ' Ada ', admin: true }, UserSchema);
+  assert.deepEqual(JSON.parse(mock.calls[0].body), { id: 1, name: 'Ada' });
+});
+
+test('streamed responses are not validated', async () => {
+  const { mock, api } = setupMock();
+  mock.get('/users/5').reply(200, { id: 'not a number' });
+
+  const chunks: string[] = [];
+  for await (const line of api.get('/users/5').validate(UserSchema).lines()) chunks.push(line);
+  assert.deepEqual(chunks, ['{"id":"not a number"}']);
+});